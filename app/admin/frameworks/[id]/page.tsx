@@ -0,0 +1,34 @@
+import { notFound, redirect } from 'next/navigation';
+import { auth, isAdmin } from '../../../../lib/auth';
+import { requestMCPService } from '../../../../lib/mcp';
+import type { EditableFramework } from '../../../../services/framework-editor';
+import { FrameworkEditor } from '../../../../components/admin/FrameworkEditor';
+
+export const dynamic = 'force-dynamic';
+
+interface FrameworkEditorPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function FrameworkEditorPage({ params }: FrameworkEditorPageProps) {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+  if (!isAdmin(session.user)) {
+    redirect('/');
+  }
+
+  const { id } = await params;
+  const { status, data } = await requestMCPService<EditableFramework>(`/admin/frameworks/${encodeURIComponent(id)}`);
+  if (status === 404) {
+    notFound();
+  }
+  if (status !== 200) {
+    throw new Error((data as any).error || 'Could not load framework');
+  }
+
+  // Keyed by version so a save or rollback resets the form to what was stored
+  return <FrameworkEditor key={data.summary.version} id={id} framework={data} />;
+}
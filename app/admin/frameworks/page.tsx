@@ -0,0 +1,35 @@
+import { redirect } from 'next/navigation';
+import { auth, isAdmin } from '../../../lib/auth';
+import { requestMCPService } from '../../../lib/mcp';
+import type { FrameworkLoadError, FrameworkSummary } from '../../../services/framework-registry';
+import { FrameworkListView } from '../../../components/admin/FrameworkListView';
+
+export const dynamic = 'force-dynamic';
+
+export default async function FrameworksAdminPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+  if (!isAdmin(session.user)) {
+    redirect('/');
+  }
+
+  let frameworks: FrameworkSummary[] = [];
+  let loadErrors: FrameworkLoadError[] = [];
+  let error: string | undefined;
+
+  try {
+    const { status, data } = await requestMCPService('/admin/frameworks');
+    if (status === 200) {
+      ({ frameworks, loadErrors } = data);
+    } else {
+      error = data.error || 'Could not load frameworks';
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Could not load frameworks';
+  }
+
+  return <FrameworkListView frameworks={frameworks} loadErrors={loadErrors} error={error} />;
+}
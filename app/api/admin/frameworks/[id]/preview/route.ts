@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, isAdmin } from '../../../../../../lib/auth';
+import { requestMCPService } from '../../../../../../lib/mcp';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Render the enhanced-analysis prompt for the definition being edited
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Only admins can edit frameworks' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { definition, callId } = await request.json();
+    const { status, data } = await requestMCPService(`/admin/frameworks/${encodeURIComponent(id)}/preview`, {
+      method: 'POST',
+      body: { definition, callId },
+    });
+    return NextResponse.json(data, { status });
+
+  } catch (error) {
+    console.error('Error previewing framework prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to render preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, isAdmin } from '../../../../../../lib/auth';
+import { requestMCPService } from '../../../../../../lib/mcp';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Restore an earlier revision as a new version
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Only admins can edit frameworks' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { revision } = await request.json();
+    const { status, data } = await requestMCPService(`/admin/frameworks/${encodeURIComponent(id)}/rollback`, {
+      method: 'POST',
+      body: { revision, savedBy: session.user.email },
+    });
+    return NextResponse.json(data, { status });
+
+  } catch (error) {
+    console.error('Error rolling back framework:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back framework' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, isAdmin } from '../../../../../lib/auth';
+import { requestMCPService } from '../../../../../lib/mcp';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Only admins can edit frameworks' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { status, data } = await requestMCPService(`/admin/frameworks/${encodeURIComponent(id)}`);
+    return NextResponse.json(data, { status });
+
+  } catch (error) {
+    console.error('Error loading framework:', error);
+    return NextResponse.json(
+      { error: 'Failed to load framework' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new version of the framework; the MCP service validates it and rejects saves over a newer version
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Only admins can edit frameworks' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const { definition, files, message, baseVersion } = await request.json();
+    const { status, data } = await requestMCPService(`/admin/frameworks/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: { definition, files, message, baseVersion, savedBy: session.user.email },
+    });
+    return NextResponse.json(data, { status });
+
+  } catch (error) {
+    console.error('Error saving framework:', error);
+    return NextResponse.json(
+      { error: 'Failed to save framework' },
+      { status: 500 }
+    );
+  }
+}
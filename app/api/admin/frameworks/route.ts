@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { auth, isAdmin } from '../../../../lib/auth';
+import { requestMCPService } from '../../../../lib/mcp';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Only admins can edit frameworks' }, { status: 403 });
+    }
+
+    const { status, data } = await requestMCPService('/admin/frameworks');
+    return NextResponse.json(data, { status });
+
+  } catch (error) {
+    console.error('Error listing frameworks:', error);
+    return NextResponse.json(
+      { error: 'Failed to list frameworks' },
+      { status: 500 }
+    );
+  }
+}
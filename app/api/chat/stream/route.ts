@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../lib/auth';
+import { runChatTurn } from '../../../../lib/chat/run-chat';
+import { resolveConversation, saveChatTurn } from '../../../../lib/chat/persistence';
+import { ConversationHistory, loadConversationHistory } from '../../../../lib/chat/history';
+import { maybeSummarizeConversation } from '../../../../lib/chat/summary';
+import { readModelOverrides } from '../../../../lib/chat/model-overrides';
+import { withModelOverrides } from '../../../../services/model-routing';
+
+// Streaming variant of /api/chat. Emits Server-Sent Events:
+//   text            { delta }
+//   tool_use_start  { id, name, input }
+//   tool_use_end    { toolCall }
+//   citations       { citations }
+//   conversation    { conversationId }
+//   done            { conversationId, response, toolCalls, citations }
+//   error           { error }
+export async function POST(request: NextRequest) {
+  console.log('=== CHAT STREAM API CALLED ===');
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const { message, conversationId: requestedConversationId, modelOverrides } = body ?? {};
+  if (typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json({ error: 'Message is required' }, { status: 400 });
+  }
+  console.log('Message received:', message.substring(0, 50));
+
+  const overrides = readModelOverrides(session.user, modelOverrides);
+  if (!overrides.ok) {
+    return NextResponse.json({ error: overrides.error }, { status: overrides.status });
+  }
+
+  // History always comes from the database, never from the client
+  let conversationId: string | null;
+  let conversation: ConversationHistory;
+  try {
+    conversationId = await resolveConversation(session.user.id, requestedConversationId, message);
+    if (!conversationId) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    conversation = await loadConversationHistory(conversationId);
+  } catch (error) {
+    console.error('Chat stream API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+  const { history, summary } = conversation;
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: string, data: any) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Client went away - keep running so the turn can still be saved
+          closed = true;
+        }
+      };
+
+      send('conversation', { conversationId });
+
+      try {
+        const { response, toolCalls, citations } = await withModelOverrides(overrides.overrides, () =>
+          runChatTurn({
+            message,
+            history,
+            summary,
+            onEvent: (event) => {
+              const { type, ...data } = event;
+              send(type, data);
+            },
+          })
+        );
+
+        // Persist the completed turn before telling the client we're done
+        await saveChatTurn(conversationId, message, response, toolCalls);
+
+        send('done', { conversationId, response, toolCalls, citations });
+
+        // Keep the stored history within the context budget for the next turn
+        await withModelOverrides(overrides.overrides, () => maybeSummarizeConversation(conversationId));
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        send('error', { error: 'Internal server error' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../../lib/auth';
+import { fetchMCPCached } from '../../../../../lib/mcp-cache';
 
 interface RouteContext {
   params: Promise<{ path: string[] }>;
@@ -22,17 +23,7 @@ export async function GET(
     const params = await context.params;
     const resourcePath = params.path.join('/');
     
-    const response = await fetch(`${process.env.MIRO_MCP_SERVICE_URL}/resources/${resourcePath}`, {
-      headers: {
-        'Authorization': `Bearer ${process.env.SERVICE_API_KEY}`,
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch resource from MCP service');
-    }
-
-    const data = await response.json();
+    const data = await fetchMCPCached(`/resources/${resourcePath}`);
     return NextResponse.json(data);
 
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { auth } from '../../../../lib/auth';
+import { fetchMCPCached } from '../../../../lib/mcp-cache';
 
 export async function GET() {
   try {
@@ -8,18 +9,8 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Fetch available tools from MCP service
-    const response = await fetch(`${process.env.MIRO_MCP_SERVICE_URL}/tools`, {
-      headers: {
-        'Authorization': `Bearer ${process.env.SERVICE_API_KEY}`,
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch tools from MCP service');
-    }
-
-    const data = await response.json();
+    // Served from the MCP listing cache
+    const data = await fetchMCPCached('/tools');
     return NextResponse.json(data);
 
   } catch (error) {
@@ -0,0 +1,77 @@
+import { redirect } from 'next/navigation';
+import { auth } from '../../../lib/auth';
+import { callMCPTool, fetchMCPResourceManifest } from '../../../lib/mcp';
+import type { AccountRollup } from '../../../services/account-rollup';
+import { AccountRollupView } from '../../../components/dashboard/AccountRollupView';
+
+export const dynamic = 'force-dynamic';
+
+interface AccountsPageProps {
+  searchParams: Promise<{
+    customer?: string;
+    framework?: string;
+    dateRange?: string;
+    domains?: string;
+    maxCalls?: string;
+    job?: string;
+  }>;
+}
+
+export default async function AccountsPage({ searchParams }: AccountsPageProps) {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+
+  const params = await searchParams;
+  const customer = params.customer?.trim() || undefined;
+  // Frameworks are discovered by the MCP service from services/frameworks
+  const manifest = await fetchMCPResourceManifest();
+  const frameworks = (manifest?.frameworks || []).map(({ id, displayName }) => ({ id, displayName }));
+  const framework = frameworks.some(entry => entry.id === params.framework) ? params.framework! : frameworks[0]?.id;
+  const maxCalls = parseInt(params.maxCalls || '', 10) || undefined;
+  const domains = (params.domains || '').split(',').map(domain => domain.trim()).filter(Boolean);
+
+  let rollup: (AccountRollup & { message?: string }) | null = null;
+  let pendingJob: { jobId: string; completed: number; total: number } | undefined;
+  let error: string | undefined;
+
+  if (customer && framework) {
+    // Calls already scored with the current framework and prompt versions come from storage, so only new calls hit the model
+    try {
+      // Large accounts are scored in a background job; reloading with its id shows the rollup once it completes
+      const response = params.job
+        ? await callMCPTool('get_analysis_job', { jobId: params.job })
+        : await callMCPTool('get_account_rollup', {
+          customerName: customer,
+          framework,
+          dateRange: params.dateRange || undefined,
+          domains: domains.length > 0 ? domains : undefined,
+          maxCalls,
+        });
+
+      if (!response.jobId) {
+        rollup = response;
+      } else if (response.accountRollup) {
+        rollup = response.accountRollup;
+      } else if (response.status === 'failed' || response.status === 'cancelled') {
+        error = response.error || `Scoring the account's calls ${response.status === 'failed' ? 'failed' : 'was cancelled'}`;
+      } else {
+        pendingJob = { jobId: response.jobId, ...response.progress };
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Could not build the account rollup';
+    }
+  }
+
+  return (
+    <AccountRollupView
+      frameworks={frameworks}
+      rollup={rollup}
+      pendingJob={pendingJob}
+      error={error}
+      filters={{ customer, framework, dateRange: params.dateRange, domains: params.domains, maxCalls }}
+    />
+  );
+}
@@ -0,0 +1,49 @@
+import { redirect } from 'next/navigation';
+import { auth } from '../../../lib/auth';
+import { db } from '../../../lib/db';
+import { getRepTrends, listTrendFrameworks } from '../../../services/rep-trends';
+import { RepTrendsView } from '../../../components/dashboard/RepTrendsView';
+
+export const dynamic = 'force-dynamic';
+
+interface TrendsPageProps {
+  searchParams: Promise<{
+    framework?: string;
+    windowDays?: string;
+    windows?: string;
+    team?: string;
+    rep?: string;
+  }>;
+}
+
+export default async function TrendsPage({ searchParams }: TrendsPageProps) {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+
+  const params = await searchParams;
+  const frameworks = await listTrendFrameworks(db);
+  const framework = params.framework && frameworks.includes(params.framework) ? params.framework : frameworks[0];
+  const windowDays = parseInt(params.windowDays || '', 10) || 30;
+  const windows = parseInt(params.windows || '', 10) || 6;
+
+  const trends = framework
+    ? await getRepTrends(db, {
+      framework,
+      windowDays,
+      windows,
+      team: params.team || undefined,
+      rep: params.rep || undefined,
+    })
+    : null;
+
+  return (
+    <RepTrendsView
+      frameworks={frameworks}
+      trends={trends}
+      filters={{ framework, windowDays, windows, team: params.team, rep: params.rep }}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { auth } from '../lib/auth';
+import { auth, isAdmin } from '../lib/auth';
 import { redirect } from 'next/navigation';
 import { ChatLayout } from '../components/chat/ChatLayout';
 
@@ -9,5 +9,5 @@ export default async function HomePage() {
     redirect('/auth/signin');
   }
 
-  return <ChatLayout user={session.user} />;
+  return <ChatLayout user={session.user} isAdmin={isAdmin(session.user)} />;
 }
\ No newline at end of file
@@ -0,0 +1,492 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Eye, History, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { useToast } from '../../hooks/use-toast';
+import { validateFrameworkDefinition } from '../../services/framework-schema';
+import type { FrameworkComponent, FrameworkDefinition, SubComponent } from '../../services/framework-definitions';
+import type { EditableFramework } from '../../services/framework-editor';
+
+interface FrameworkEditorProps {
+  id: string;
+  framework: EditableFramework;
+}
+
+const textareaClassName =
+  'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const SCORING_LEVELS = ['excellent', 'good', 'fair', 'poor'] as const;
+
+const FILE_LABELS: Record<string, string> = {
+  'scoring_rubric.md': 'Scoring rubric',
+  'planning_checklist.md': 'Planning checklist',
+};
+
+function newSubComponent(): SubComponent {
+  return {
+    name: '',
+    description: '',
+    keywords: [],
+    scoringCriteria: { excellent: '', good: '', fair: '', poor: '' },
+    coachingTips: [],
+  };
+}
+
+function parseList(text: string, separator: string): string[] {
+  return text.split(separator).map(entry => entry.trim()).filter(Boolean);
+}
+
+function Field({ label, children, className }: { label: string; children: React.ReactNode; className?: string }) {
+  return (
+    <label className={`text-sm space-y-1 block ${className || ''}`}>
+      <span className="text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+// Keeps the raw text while typing, so separators and blank lines don't disappear mid-edit
+function ListField({ label, value, onChange, multiline, placeholder }: {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  multiline?: boolean;
+  placeholder?: string;
+}) {
+  const separator = multiline ? '\n' : ',';
+  const [text, setText] = useState(value.join(multiline ? '\n' : ', '));
+
+  useEffect(() => {
+    if (parseList(text, separator).join('\u0000') !== value.join('\u0000')) {
+      setText(value.join(multiline ? '\n' : ', '));
+    }
+    // Only resync when the list changes from outside this field
+  }, [value]);
+
+  const update = (next: string) => {
+    setText(next);
+    onChange(parseList(next, separator));
+  };
+
+  return (
+    <Field label={label}>
+      {multiline ? (
+        <textarea value={text} onChange={event => update(event.target.value)} rows={3} placeholder={placeholder} className={textareaClassName} />
+      ) : (
+        <Input value={text} onChange={event => update(event.target.value)} placeholder={placeholder} />
+      )}
+    </Field>
+  );
+}
+
+function WeightInput({ value, onChange }: { value?: number; onChange: (value?: number) => void }) {
+  return (
+    <Field label="Weight" className="w-28">
+      <Input
+        type="number"
+        min={0}
+        value={value ?? ''}
+        onChange={event => onChange(event.target.value === '' ? undefined : Number(event.target.value))}
+      />
+    </Field>
+  );
+}
+
+export function FrameworkEditor({ id, framework }: FrameworkEditorProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [definition, setDefinition] = useState<FrameworkDefinition>(framework.definition);
+  const [files, setFiles] = useState<Record<string, string>>(framework.files);
+  const [message, setMessage] = useState('');
+  const [serverIssues, setServerIssues] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewCallId, setPreviewCallId] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const validation = useMemo(() => validateFrameworkDefinition(id, definition), [id, definition]);
+  const issues = validation.ok ? serverIssues : validation.issues;
+  const isDirty = JSON.stringify({ definition, files }) !== JSON.stringify({ definition: framework.definition, files: framework.files });
+
+  const updateComponent = (componentIndex: number, update: (component: FrameworkComponent) => FrameworkComponent) => {
+    setDefinition(current => ({
+      ...current,
+      components: current.components.map((component, index) => index === componentIndex ? update(component) : component),
+    }));
+  };
+
+  const updateSubComponent = (componentIndex: number, subIndex: number, patch: Partial<SubComponent>) => {
+    updateComponent(componentIndex, component => ({
+      ...component,
+      subComponents: component.subComponents.map((sub, index) => index === subIndex ? { ...sub, ...patch } : sub),
+    }));
+  };
+
+  const handleError = async (response: Response, title: string) => {
+    const data = await response.json().catch(() => ({}));
+    setServerIssues(data.issues || []);
+    toast({ title, description: data.error || data.message || `Request failed (${response.status})`, variant: 'destructive' });
+  };
+
+  const renderPreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await fetch(`/api/admin/frameworks/${id}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition, callId: previewCallId || undefined }),
+      });
+      if (!response.ok) {
+        await handleError(response, 'Could not render the prompt');
+        return;
+      }
+      setPreview((await response.json()).prompt);
+    } catch (error) {
+      console.error('Failed to render framework preview:', error);
+      toast({ title: 'Error', description: 'Failed to render the prompt preview', variant: 'destructive' });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/frameworks/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition, files, message: message || undefined, baseVersion: framework.summary.version }),
+      });
+      if (!response.ok) {
+        await handleError(response, 'Could not save the framework');
+        return;
+      }
+      const saved: EditableFramework = await response.json();
+      toast({ title: 'Saved', description: `${saved.summary.displayName} is now version ${saved.summary.version}` });
+      router.refresh();
+    } catch (error) {
+      console.error('Failed to save framework:', error);
+      toast({ title: 'Error', description: 'Failed to save the framework', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rollback = async (revision: number, version: string) => {
+    if (!window.confirm(`Roll back to version ${version}? It is saved as a new version and any unsaved edits are lost.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/frameworks/${id}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision }),
+      });
+      if (!response.ok) {
+        await handleError(response, 'Could not roll back');
+        return;
+      }
+      const saved: EditableFramework = await response.json();
+      toast({ title: 'Rolled back', description: `Version ${version} restored as version ${saved.summary.version}` });
+      router.refresh();
+    } catch (error) {
+      console.error('Failed to roll back framework:', error);
+      toast({ title: 'Error', description: 'Failed to roll back the framework', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/admin/frameworks">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Frameworks
+            </a>
+          </Button>
+          <span className="text-lg font-semibold">{framework.summary.displayName}</span>
+          <Badge variant="outline">Version {framework.summary.version}</Badge>
+          {isDirty && <Badge variant="secondary">Unsaved changes</Badge>}
+        </div>
+        <Button onClick={save} disabled={!isDirty || !validation.ok || isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving…' : 'Save new version'}
+        </Button>
+      </div>
+
+      <div className="p-6 grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {framework.loadError && (
+            <Card>
+              <CardContent className="p-6 text-sm text-destructive">
+                definition.json on disk is invalid, so the service uses the last valid version shown here: {framework.loadError}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Framework</CardTitle>
+              <CardDescription>{id}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <Field label="Display name">
+                  <Input
+                    value={definition.displayName || ''}
+                    onChange={event => setDefinition(current => ({ ...current, displayName: event.target.value || undefined }))}
+                  />
+                </Field>
+                <Field label="Category">
+                  <Input
+                    value={definition.category || ''}
+                    onChange={event => setDefinition(current => ({ ...current, category: event.target.value || undefined }))}
+                  />
+                </Field>
+              </div>
+              <Field label="Description">
+                <textarea
+                  value={definition.description}
+                  onChange={event => setDefinition(current => ({ ...current, description: event.target.value }))}
+                  rows={2}
+                  className={textareaClassName}
+                />
+              </Field>
+            </CardContent>
+          </Card>
+
+          {definition.components.map((component, componentIndex) => (
+            <Card key={componentIndex}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-lg">{component.name || 'New component'}</CardTitle>
+                  <CardDescription>Component {componentIndex + 1} of {definition.components.length}</CardDescription>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={definition.components.length === 1}
+                  onClick={() => setDefinition(current => ({
+                    ...current,
+                    components: current.components.filter((_, index) => index !== componentIndex),
+                  }))}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-4">
+                  <Field label="Name" className="flex-1">
+                    <Input value={component.name} onChange={event => updateComponent(componentIndex, current => ({ ...current, name: event.target.value }))} />
+                  </Field>
+                  <WeightInput value={component.weight} onChange={weight => updateComponent(componentIndex, current => ({ ...current, weight }))} />
+                </div>
+                <Field label="Description">
+                  <textarea
+                    value={component.description}
+                    onChange={event => updateComponent(componentIndex, current => ({ ...current, description: event.target.value }))}
+                    rows={2}
+                    className={textareaClassName}
+                  />
+                </Field>
+
+                {component.subComponents.map((sub, subIndex) => (
+                  <div key={subIndex} className="rounded-md border p-4 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">Sub-component: {sub.name || 'New sub-component'}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={component.subComponents.length === 1}
+                        onClick={() => updateComponent(componentIndex, current => ({
+                          ...current,
+                          subComponents: current.subComponents.filter((_, index) => index !== subIndex),
+                        }))}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Remove
+                      </Button>
+                    </div>
+                    <div className="flex gap-4">
+                      <Field label="Name" className="flex-1">
+                        <Input value={sub.name} onChange={event => updateSubComponent(componentIndex, subIndex, { name: event.target.value })} />
+                      </Field>
+                      <WeightInput value={sub.weight} onChange={weight => updateSubComponent(componentIndex, subIndex, { weight })} />
+                    </div>
+                    <Field label="Description">
+                      <textarea
+                        value={sub.description}
+                        onChange={event => updateSubComponent(componentIndex, subIndex, { description: event.target.value })}
+                        rows={2}
+                        className={textareaClassName}
+                      />
+                    </Field>
+                    <ListField
+                      label="Keywords (comma separated)"
+                      value={sub.keywords}
+                      onChange={keywords => updateSubComponent(componentIndex, subIndex, { keywords })}
+                    />
+                    <div className="grid gap-4 md:grid-cols-2">
+                      {SCORING_LEVELS.map(level => (
+                        <Field key={level} label={`Scoring: ${level}`}>
+                          <textarea
+                            value={sub.scoringCriteria[level]}
+                            onChange={event => updateSubComponent(componentIndex, subIndex, {
+                              scoringCriteria: { ...sub.scoringCriteria, [level]: event.target.value },
+                            })}
+                            rows={2}
+                            className={textareaClassName}
+                          />
+                        </Field>
+                      ))}
+                    </div>
+                    <ListField
+                      label="Coaching tips (one per line)"
+                      value={sub.coachingTips || []}
+                      onChange={coachingTips => updateSubComponent(componentIndex, subIndex, { coachingTips })}
+                      multiline
+                    />
+                  </div>
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateComponent(componentIndex, current => ({
+                    ...current,
+                    subComponents: [...current.subComponents, newSubComponent()],
+                  }))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add sub-component
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => setDefinition(current => ({
+              ...current,
+              components: [...current.components, { name: '', description: '', subComponents: [newSubComponent()] }],
+            }))}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add component
+          </Button>
+
+          {Object.keys(files).map(file => (
+            <Card key={file}>
+              <CardHeader>
+                <CardTitle className="text-lg">{FILE_LABELS[file] || file}</CardTitle>
+                <CardDescription>{file}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <textarea
+                  value={files[file]}
+                  onChange={event => setFiles(current => ({ ...current, [file]: event.target.value }))}
+                  rows={16}
+                  className={`${textareaClassName} font-mono`}
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Save</CardTitle>
+              <CardDescription>
+                Saving replaces version {framework.summary.version} with a new version. Calls analyzed from then on are
+                scored with it; analyses stored for earlier versions are kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Field label="What changed">
+                <Input value={message} onChange={event => setMessage(event.target.value)} placeholder="Tightened Champion scoring criteria" />
+              </Field>
+              {issues.length > 0 && (
+                <ul className="space-y-1 text-sm text-destructive">
+                  {issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Prompt preview</CardTitle>
+              <CardDescription>
+                The enhanced-analysis prompt for the definition above. Enter a Gong call ID to include its transcript.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={previewCallId} onChange={event => setPreviewCallId(event.target.value)} placeholder="Gong call ID (optional)" />
+                <Button variant="outline" onClick={renderPreview} disabled={!validation.ok || isPreviewing}>
+                  <Eye className="h-4 w-4 mr-1" />
+                  {isPreviewing ? 'Rendering…' : 'Preview'}
+                </Button>
+              </div>
+              {preview !== null && (
+                <>
+                  <p className="text-xs text-muted-foreground">{preview.length.toLocaleString()} characters</p>
+                  <pre className="max-h-[32rem] overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">{preview}</pre>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <History className="h-4 w-4 mr-2" />
+                Version history
+              </CardTitle>
+              <CardDescription>Rolling back restores an earlier version as a new one.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {framework.revisions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No edits yet. The deployed version is kept in the history on the first save.
+                </p>
+              ) : (
+                <ul className="space-y-3 text-sm">
+                  {framework.revisions.map(revision => (
+                    <li key={revision.revision} className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-medium">
+                          Version {revision.version}
+                          {revision.version === framework.summary.version && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                        </div>
+                        <div className="text-muted-foreground">{revision.message}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {revision.savedBy} · {new Date(revision.savedAt).toLocaleString()}
+                        </div>
+                      </div>
+                      {revision.version !== framework.summary.version && (
+                        <Button variant="ghost" size="sm" onClick={() => rollback(revision.revision, revision.version)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Roll back
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { ArrowLeft, Pencil } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import type { FrameworkLoadError, FrameworkSummary } from '../../services/framework-registry';
+
+interface FrameworkListViewProps {
+  frameworks: FrameworkSummary[];
+  loadErrors: FrameworkLoadError[];
+  error?: string;
+}
+
+export function FrameworkListView({ frameworks, loadErrors, error }: FrameworkListViewProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Chat
+            </a>
+          </Button>
+          <span className="text-lg font-semibold">Framework Editor</span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-destructive">{error}</CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Frameworks</CardTitle>
+              <CardDescription>
+                Each save creates a new version that the MCP service uses for the next analysis. Earlier versions can
+                be rolled back from the editor.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Framework</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 pr-4 font-medium">Version</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {frameworks.map(framework => (
+                    <tr key={framework.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{framework.displayName}</div>
+                        <div className="text-xs text-muted-foreground">{framework.id}</div>
+                      </td>
+                      <td className="py-2 pr-4 text-muted-foreground">{framework.description}</td>
+                      <td className="py-2 pr-4"><Badge variant="outline">{framework.version}</Badge></td>
+                      <td className="py-2 text-right">
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={`/admin/frameworks/${framework.id}`}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </a>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {loadErrors.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Invalid definitions</CardTitle>
+              <CardDescription>
+                These definition.json files failed validation. Frameworks that loaded before keep their last valid version.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {loadErrors.map(loadError => (
+                  <li key={loadError.id}>
+                    <span className="font-medium">{loadError.id}</span>
+                    <span className="text-destructive">: {loadError.error}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
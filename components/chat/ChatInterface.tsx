@@ -25,6 +25,8 @@ export function ChatInterface({
   onNewMessage 
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
+  // The server creates a conversation on the first message when none was given
+  const [activeConversationId, setActiveConversationId] = useState(conversationId);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [availableTools, setAvailableTools] = useState<any[]>([]);
@@ -68,36 +70,112 @@ export function ChatInterface({
     setInput('');
     setIsLoading(true);
 
+    const assistantId = crypto.randomUUID();
+    let assistantMessage: Message = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      toolCalls: [],
+      citations: [],
+      createdAt: new Date(),
+    };
+
+    // Apply an update to the in-flight assistant message
+    const updateAssistant = (update: (message: Message) => Message) => {
+      assistantMessage = update(assistantMessage);
+      const snapshot = assistantMessage;
+      setMessages(prev => prev.map(m => (m.id === assistantId ? snapshot : m)));
+    };
+
     try {
-      const response = await fetch('/api/chat', {
+      const response = await fetch('/api/chat/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           message: input,
-          conversationId,
-          history: messages,
+          conversationId: activeConversationId,
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to send message');
       }
 
-      const data = await response.json();
-      
-      const assistantMessage: Message = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: data.response,
-        toolCalls: data.toolCalls,
-        citations: data.citations,
-        createdAt: new Date(),
+      setMessages(prev => [...prev, assistantMessage]);
+
+      const handleEvent = (event: string, data: any) => {
+        switch (event) {
+          case 'text':
+            updateAssistant(m => ({ ...m, content: m.content + data.delta }));
+            break;
+          case 'tool_use_start':
+            updateAssistant(m => ({
+              ...m,
+              toolCalls: [
+                ...(m.toolCalls || []),
+                { id: data.id, name: data.name, arguments: data.input, status: 'pending' },
+              ],
+            }));
+            break;
+          case 'tool_use_end':
+            updateAssistant(m => ({
+              ...m,
+              toolCalls: (m.toolCalls || []).map(tc => (tc.id === data.toolCall.id ? data.toolCall : tc)),
+            }));
+            break;
+          case 'conversation':
+            setActiveConversationId(data.conversationId);
+            break;
+          case 'citations':
+            updateAssistant(m => ({ ...m, citations: [...(m.citations || []), ...data.citations] }));
+            break;
+          case 'done':
+            updateAssistant(m => ({
+              ...m,
+              content: data.response,
+              toolCalls: data.toolCalls,
+              citations: data.citations,
+            }));
+            break;
+          case 'error':
+            throw new Error(data.error || 'Failed to send message');
+        }
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
-      
+      // Parse the Server-Sent Events stream as it arrives
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          let event = 'message';
+          let data = '';
+          for (const line of rawEvent.split('\n')) {
+            if (line.startsWith('event: ')) {
+              event = line.slice(7);
+            } else if (line.startsWith('data: ')) {
+              data += line.slice(6);
+            }
+          }
+
+          if (data) {
+            handleEvent(event, JSON.parse(data));
+          }
+        }
+      }
+
       if (onNewMessage) {
         onNewMessage(userMessage);
         onNewMessage(assistantMessage);
@@ -149,9 +227,11 @@ export function ChatInterface({
             </div>
           )}
 
-          {messages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
-          ))}
+          {messages
+            .filter((message) => message.content || (message.toolCalls && message.toolCalls.length > 0))
+            .map((message) => (
+              <MessageBubble key={message.id} message={message} />
+            ))}
 
           {isLoading && (
             <div className="flex items-center space-x-2 text-muted-foreground">
@@ -266,7 +346,7 @@ function ToolCallDisplay({ toolCall }: ToolCallDisplayProps) {
           </span>
           {toolCall.status && (
             <Badge 
-              variant={toolCall.status === 'success' ? 'default' : 'destructive'}
+              variant={toolCall.status === 'success' ? 'default' : toolCall.status === 'pending' ? 'secondary' : 'destructive'}
               className="text-xs"
             >
               {toolCall.status}
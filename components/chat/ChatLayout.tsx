@@ -13,18 +13,22 @@ import {
 import { ChatInterface } from './ChatInterface';
 import { ConversationList } from './ConversationList';
 import { 
+  Building2,
+  ListChecks,
   MessageSquare, 
   Plus, 
-  Settings
+  Settings,
+  TrendingUp
 } from 'lucide-react';
 import type { User } from 'next-auth';
 import { SignOutButton } from './SignOutButton';
 
 interface ChatLayoutProps {
   user: User;
+  isAdmin?: boolean;
 }
 
-export function ChatLayout({ user }: ChatLayoutProps) {
+export function ChatLayout({ user, isAdmin }: ChatLayoutProps) {
   return (
     <div className="flex h-screen bg-background">
       {/* Sidebar */}
@@ -75,6 +79,26 @@ export function ChatLayout({ user }: ChatLayoutProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start" className="w-56">
+              <DropdownMenuItem asChild>
+                <a href="/dashboard/trends" className="flex items-center">
+                  <TrendingUp className="h-4 w-4 mr-2" />
+                  Rep Trends
+                </a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href="/dashboard/accounts" className="flex items-center">
+                  <Building2 className="h-4 w-4 mr-2" />
+                  Account Rollup
+                </a>
+              </DropdownMenuItem>
+              {isAdmin && (
+                <DropdownMenuItem asChild>
+                  <a href="/admin/frameworks" className="flex items-center">
+                    <ListChecks className="h-4 w-4 mr-2" />
+                    Framework Editor
+                  </a>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem asChild>
                 <a href="/test" className="flex items-center">
                   <Settings className="h-4 w-4 mr-2" />
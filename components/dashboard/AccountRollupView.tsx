@@ -0,0 +1,342 @@
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import type { AccountRollup, ComponentCoverageStatus, TrackedItem } from '../../services/account-rollup';
+
+interface AccountRollupViewProps {
+  frameworks: { id: string; displayName: string }[];
+  rollup: (AccountRollup & { message?: string }) | null;
+  // Background job scoring the account's calls, while it runs
+  pendingJob?: { jobId: string; completed: number; total: number };
+  error?: string;
+  filters: {
+    customer?: string;
+    framework?: string;
+    dateRange?: string;
+    domains?: string;
+    maxCalls?: number;
+  };
+}
+
+function formatScore(score: number | null | undefined) {
+  return score == null ? '–' : score.toFixed(1);
+}
+
+function formatChange(change: number | null | undefined) {
+  if (change == null) return '–';
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}`;
+}
+
+function CoverageBadge({ status }: { status: ComponentCoverageStatus }) {
+  switch (status) {
+    case 'strong':
+      return <Badge className="bg-green-600 hover:bg-green-600">Strong</Badge>;
+    case 'covered':
+      return <Badge variant="secondary">Covered</Badge>;
+    case 'weak':
+      return <Badge variant="destructive">Weak</Badge>;
+    default:
+      return <Badge variant="outline">Not covered</Badge>;
+  }
+}
+
+function TrackedList({ title, description, items, callNumbers, emptyText }: {
+  title: string;
+  description: string;
+  items: TrackedItem[];
+  callNumbers: Map<string, number>;
+  emptyText: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyText}</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {items.map(item => (
+              <li key={`${item.firstRaisedCallId}-${item.text}`}>
+                <div className="font-medium">{item.text}</div>
+                {item.detail && <div className="text-muted-foreground">{item.detail}</div>}
+                <div className="text-xs text-muted-foreground">
+                  Raised on call {callNumbers.get(item.firstRaisedCallId)}
+                  {item.timesRaised > 1 && `, ${item.timesRaised} calls in total, last on call ${callNumbers.get(item.lastRaisedCallId)}`}
+                  {item.frameworkComponent && ` · ${item.frameworkComponent}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RollupDetails({ rollup, frameworkName }: { rollup: AccountRollup; frameworkName: string }) {
+  const callNumbers = new Map(rollup.calls.map((call, index) => [call.callId, index + 1]));
+  const scoredCalls = rollup.calls.filter(call => call.analysisStatus === 'completed');
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Calls</CardTitle>
+          <CardDescription>
+            {rollup.scoredCalls} of {rollup.totalCalls} call(s) scored against {frameworkName}.
+            Overall score {formatScore(rollup.scoreProgression.first)} → {formatScore(rollup.scoreProgression.latest)}
+            {' '}({formatChange(rollup.scoreProgression.change)}) from the first to the latest call.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">#</th>
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Call</th>
+                <th className="py-2 pr-4 font-medium">Rep</th>
+                <th className="py-2 font-medium text-right">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rollup.calls.map((call, index) => (
+                <tr key={call.callId} className="border-b last:border-0">
+                  <td className="py-2 pr-4">{index + 1}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{call.callDate}</td>
+                  <td className="py-2 pr-4">
+                    <a href={call.callUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center hover:underline">
+                      {call.callTitle}
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  </td>
+                  <td className="py-2 pr-4">{call.rep || '–'}</td>
+                  <td className="py-2 text-right" title={call.analysisStatus}>{formatScore(call.overallScore)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Component coverage across the cycle</CardTitle>
+          <CardDescription>Component score on each scored call, rated by the best score so far</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Component</th>
+                {scoredCalls.map(call => (
+                  <th key={call.callId} className="py-2 pr-4 font-medium text-right" title={call.callTitle}>
+                    Call {callNumbers.get(call.callId)}
+                  </th>
+                ))}
+                <th className="py-2 pr-4 font-medium text-right">Best</th>
+                <th className="py-2 font-medium">Coverage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rollup.componentCoverage.map(component => (
+                <tr key={component.name} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium">{component.name}</td>
+                  {component.scores.map((score, index) => (
+                    <td key={scoredCalls[index]?.callId || index} className="py-2 pr-4 text-right">{formatScore(score)}</td>
+                  ))}
+                  <td className="py-2 pr-4 text-right font-medium">{formatScore(component.bestScore)}</td>
+                  <td className="py-2"><CoverageBadge status={component.status} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <TrackedList
+          title="Open discovery gaps"
+          description="Still raised on the latest call"
+          items={rollup.discoveryGaps.open}
+          callNumbers={callNumbers}
+          emptyText="No discovery gaps raised on the latest call."
+        />
+        <TrackedList
+          title="Gaps no longer raised"
+          description="Raised on earlier calls only, likely addressed since"
+          items={rollup.discoveryGaps.noLongerRaised}
+          callNumbers={callNumbers}
+          emptyText="No earlier gaps."
+        />
+        <TrackedList
+          title="Open questions"
+          description="Unanswered on the latest call"
+          items={rollup.unansweredQuestions.open}
+          callNumbers={callNumbers}
+          emptyText="No unanswered questions on the latest call."
+        />
+        <TrackedList
+          title="Questions no longer raised"
+          description="Unanswered on earlier calls only"
+          items={rollup.unansweredQuestions.noLongerRaised}
+          callNumbers={callNumbers}
+          emptyText="No earlier questions."
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Stakeholder coverage</CardTitle>
+          <CardDescription>Who joined each call, who was new, and who the analysis said was missing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rollup.stakeholders.stillMissing.length > 0 && (
+            <div className="text-sm">
+              <span className="text-muted-foreground mr-2">Still missing:</span>
+              {rollup.stakeholders.stillMissing.map(stakeholder => (
+                <Badge key={stakeholder} variant="destructive" className="mr-1">{stakeholder}</Badge>
+              ))}
+            </div>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Call</th>
+                <th className="py-2 pr-4 font-medium">Participants</th>
+                <th className="py-2 font-medium">Missing stakeholders</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rollup.stakeholders.timeline.map(snapshot => (
+                <tr key={snapshot.callId} className="border-b last:border-0 align-top">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    Call {callNumbers.get(snapshot.callId)}
+                    <div className="text-xs text-muted-foreground">{snapshot.callDate}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {snapshot.participants.map(participant => (
+                      <Badge
+                        key={participant}
+                        variant={snapshot.newParticipants.includes(participant) ? 'default' : 'outline'}
+                        className="mr-1 mb-1"
+                      >
+                        {participant}
+                      </Badge>
+                    ))}
+                  </td>
+                  <td className="py-2 text-muted-foreground">{snapshot.missingStakeholders.join(', ') || '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground">Highlighted participants joined for the first time on that call.</p>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+function jobHref(filters: AccountRollupViewProps['filters'], jobId: string) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, job: jobId })) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  return `?${query.toString()}`;
+}
+
+export function AccountRollupView({ frameworks, rollup, pendingJob, error, filters }: AccountRollupViewProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Chat
+            </a>
+          </Button>
+          <span className="text-lg font-semibold">Account Rollup</span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <form method="get" className="flex flex-wrap items-end gap-4">
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Customer</span>
+            <Input name="customer" defaultValue={filters.customer} placeholder="Account name" className="w-56" required />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Framework</span>
+            <select
+              name="framework"
+              defaultValue={filters.framework}
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {frameworks.map(framework => (
+                <option key={framework.id} value={framework.id}>{framework.displayName}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Date range</span>
+            <Input name="dateRange" defaultValue={filters.dateRange} placeholder="Last 6 months" className="w-40" />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Email domains</span>
+            <Input name="domains" defaultValue={filters.domains} placeholder="From CRM account" className="w-48" />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Max calls</span>
+            <Input name="maxCalls" type="number" min={1} defaultValue={filters.maxCalls} placeholder="All" className="w-24" />
+          </label>
+          <Button type="submit">Build rollup</Button>
+        </form>
+
+        {error ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-destructive">{error}</CardContent>
+          </Card>
+        ) : pendingJob ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground space-y-2">
+              <p>
+                This account has too many calls to score in one request, so they are being scored in the background:
+                {' '}{pendingJob.completed} of {pendingJob.total} done so far.
+              </p>
+              <Button variant="outline" size="sm" asChild>
+                <a href={jobHref(filters, pendingJob.jobId)}>Check again</a>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : !rollup ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground">
+              Enter a customer to score every call with them in order and see coverage across the sales cycle. Calls
+              that were scored before are read from storage, so only new calls take time.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {rollup.message && (
+              <Card>
+                <CardContent className="p-6 text-sm text-muted-foreground">{rollup.message}</CardContent>
+              </Card>
+            )}
+            {rollup.totalCalls > 0 && (
+              <RollupDetails
+                rollup={rollup}
+                frameworkName={frameworks.find(framework => framework.id === rollup.framework)?.displayName || rollup.framework}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { ArrowLeft, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import type { RepTrends, TrendDirection, TrendSeries } from '../../services/rep-trends';
+
+interface RepTrendsViewProps {
+  frameworks: string[];
+  trends: RepTrends | null;
+  filters: {
+    framework?: string;
+    windowDays: number;
+    windows: number;
+    team?: string;
+    rep?: string;
+  };
+}
+
+function formatFramework(framework: string) {
+  return framework.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+function formatWindowEnd(end: string) {
+  return new Date(end).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatScore(score: number | null | undefined) {
+  return score == null ? '–' : score.toFixed(1);
+}
+
+function formatChange(change: number | null | undefined) {
+  if (change == null) return '–';
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}`;
+}
+
+function DirectionBadge({ direction }: { direction: TrendDirection }) {
+  switch (direction) {
+    case 'improving':
+      return <Badge className="bg-green-600 hover:bg-green-600"><TrendingUp className="h-3 w-3 mr-1" />Improving</Badge>;
+    case 'declining':
+      return <Badge variant="destructive"><TrendingDown className="h-3 w-3 mr-1" />Declining</Badge>;
+    case 'steady':
+      return <Badge variant="secondary"><Minus className="h-3 w-3 mr-1" />Steady</Badge>;
+    default:
+      return <Badge variant="outline">Not enough calls</Badge>;
+  }
+}
+
+function SeriesTable({ title, description, series, showTeam }: {
+  title: string;
+  description: string;
+  series: TrendSeries[];
+  showTeam?: boolean;
+}) {
+  const windows = series[0]?.windows || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 pr-4 font-medium">Name</th>
+              {showTeam && <th className="py-2 pr-4 font-medium">Team</th>}
+              <th className="py-2 pr-4 font-medium text-right">Calls</th>
+              {windows.map(window => (
+                <th key={window.end} className="py-2 pr-4 font-medium text-right">{formatWindowEnd(window.end)}</th>
+              ))}
+              <th className="py-2 pr-4 font-medium text-right">Change</th>
+              <th className="py-2 font-medium">Trend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {series.map(item => (
+              <tr key={`${item.name}-${item.email || item.team}`} className="border-b last:border-0">
+                <td className="py-2 pr-4">
+                  <div className="font-medium">{item.name}</div>
+                  {item.email && <div className="text-xs text-muted-foreground">{item.email}</div>}
+                  {item.repCount !== undefined && <div className="text-xs text-muted-foreground">{item.repCount} rep(s)</div>}
+                </td>
+                {showTeam && <td className="py-2 pr-4">{item.team}</td>}
+                <td className="py-2 pr-4 text-right">{item.callCount}</td>
+                {item.windows.map(window => (
+                  <td key={window.end} className="py-2 pr-4 text-right" title={`${window.callCount} call(s)`}>
+                    {formatScore(window.overallScore)}
+                  </td>
+                ))}
+                <td className="py-2 pr-4 text-right font-medium">{formatChange(item.change.overallScore)}</td>
+                <td className="py-2"><DirectionBadge direction={item.direction} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ComponentTable({ trends }: { trends: RepTrends }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Components by rep</CardTitle>
+        <CardDescription>Average score in the latest window with calls, and the change since the earliest one</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 pr-4 font-medium">Rep</th>
+              {trends.components.map(component => (
+                <th key={component} className="py-2 pr-4 font-medium text-right">{component}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {trends.reps.map(rep => {
+              const latest = [...rep.windows].reverse().find(window => window.callCount > 0);
+              return (
+                <tr key={`${rep.name}-${rep.email}`} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium">{rep.name}</td>
+                  {trends.components.map(component => {
+                    const change = rep.change.components[component];
+                    return (
+                      <td key={component} className="py-2 pr-4 text-right">
+                        {formatScore(latest?.components[component])}
+                        {change != null && (
+                          <span className={`ml-1 text-xs ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                            ({formatChange(change)})
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RepTrendsView({ frameworks, trends, filters }: RepTrendsViewProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <a href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Chat
+            </a>
+          </Button>
+          <span className="text-lg font-semibold">Rep Framework Trends</span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <form method="get" className="flex flex-wrap items-end gap-4">
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Framework</span>
+            <select
+              name="framework"
+              defaultValue={filters.framework}
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {frameworks.map(framework => (
+                <option key={framework} value={framework}>{formatFramework(framework)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Window (days)</span>
+            <Input name="windowDays" type="number" min={1} defaultValue={filters.windowDays} className="w-28" />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Windows</span>
+            <Input name="windows" type="number" min={1} max={24} defaultValue={filters.windows} className="w-24" />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Team</span>
+            <Input name="team" defaultValue={filters.team} placeholder="All teams" className="w-40" />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Rep</span>
+            <Input name="rep" defaultValue={filters.rep} placeholder="Name or email" className="w-48" />
+          </label>
+          <Button type="submit">Show trends</Button>
+        </form>
+
+        {!trends || trends.reps.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground">
+              No analyzed calls attributed to a rep for these filters yet. Analyses are recorded when calls are scored with
+              the framework analysis tools while the MCP service has a database configured.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <SeriesTable
+              title="Teams"
+              description={`Average overall ${formatFramework(trends.framework)} score per ${trends.windowDays}-day window`}
+              series={trends.teams}
+            />
+            <SeriesTable
+              title="Reps"
+              description={`Average overall ${formatFramework(trends.framework)} score per ${trends.windowDays}-day window`}
+              series={trends.reps}
+              showTeam
+            />
+            <ComponentTable trends={trends} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -34,4 +34,14 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
     signIn: "/auth/signin",
   },
   debug: process.env.NODE_ENV === "development",
-});
\ No newline at end of file
+});
+// Admins are listed by email in ADMIN_EMAILS (comma separated)
+export function isAdmin(user?: { email?: string | null } | null): boolean {
+  const email = user?.email?.toLowerCase();
+  if (!email) return false;
+
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .includes(email);
+}
@@ -0,0 +1,91 @@
+// Keeps the prompt sent to the model inside its context window.
+// Old tool results (framework analyses, transcripts) are the bulk of a long conversation,
+// so they are truncated first, then elided, and only then are the oldest turns dropped.
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 150000;
+
+// Tool results longer than this are cut down when the prompt is over budget
+const TRUNCATED_TOOL_RESULT_CHARS = 2000;
+
+// Rough token estimate - ~4 characters per token is close enough for budgeting
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  return Math.ceil(text.length / 4);
+}
+
+// Total prompt budget (system prompt + tools + messages + response) in tokens
+export function getContextTokenBudget(): number {
+  const configured = parseInt(process.env.CHAT_CONTEXT_TOKEN_BUDGET || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+// Shorten (maxChars > 0) or replace (maxChars = 0) the tool_result blocks of a message
+function shrinkToolResults(message: any, maxChars: number): any {
+  if (!Array.isArray(message.content)) {
+    return message;
+  }
+
+  let changed = false;
+  const content = message.content.map((block: any) => {
+    if (block.type !== 'tool_result' || typeof block.content !== 'string' || block.content.length <= maxChars) {
+      return block;
+    }
+    changed = true;
+    return {
+      ...block,
+      content: maxChars === 0
+        ? '[Earlier tool result elided to save context]'
+        : `${block.content.substring(0, maxChars)}... [${block.content.length - maxChars} characters truncated to save context]`,
+    };
+  });
+
+  return changed ? { ...message, content } : message;
+}
+
+// A user message that starts a turn, as opposed to one carrying tool results
+function startsTurn(message: any): boolean {
+  return message.role === 'user' &&
+    (typeof message.content === 'string' || !message.content.some((block: any) => block.type === 'tool_result'));
+}
+
+/**
+ * Fit the message list into `budget` tokens. Messages from `currentTurnStart` onwards belong to
+ * the turn in progress and are only trimmed once everything older has been reduced.
+ */
+export function fitMessagesToBudget(messages: any[], budget: number, currentTurnStart: number): any[] {
+  let result = messages;
+  let turnStart = currentTurnStart;
+  const fits = () => estimateTokens(result) <= budget;
+
+  if (fits()) {
+    return result;
+  }
+  console.log(`✂️ Prompt is ~${estimateTokens(result)} tokens, trimming to fit ${budget}`);
+
+  // 1. Truncate large tool results from earlier turns
+  result = result.map((message, index) => index < turnStart ? shrinkToolResults(message, TRUNCATED_TOOL_RESULT_CHARS) : message);
+  if (fits()) return result;
+
+  // 2. Elide earlier tool results entirely
+  result = result.map((message, index) => index < turnStart ? shrinkToolResults(message, 0) : message);
+  if (fits()) return result;
+
+  // 3. Truncate large tool results in the current turn too
+  result = result.map(message => shrinkToolResults(message, TRUNCATED_TOOL_RESULT_CHARS));
+  if (fits()) return result;
+
+  // 4. Drop the oldest turns, always restarting on a plain user message
+  while (!fits() && turnStart > 0) {
+    let drop = 1;
+    while (drop < turnStart && !startsTurn(result[drop])) {
+      drop++;
+    }
+    result = result.slice(drop);
+    turnStart -= drop;
+  }
+
+  if (!fits()) {
+    console.warn(`⚠️ Prompt still ~${estimateTokens(result)} tokens after trimming (budget ${budget})`);
+  }
+  return result;
+}
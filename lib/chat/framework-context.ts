@@ -0,0 +1,141 @@
+import { MCPResourceEntry, MCPResourceManifest, fetchMCPResource, fetchMCPResourceManifest } from '../mcp';
+import { estimateTokens } from './context-budget';
+
+// Selects the framework resources relevant to a message from the MCP resource manifest
+// and loads them whole, most relevant first, until the framework context budget is used.
+
+const DEFAULT_FRAMEWORK_CONTEXT_TOKEN_BUDGET = 15000;
+
+// Common names users give frameworks that can't be derived from the manifest
+const FRAMEWORK_ALIASES: Record<string, string[]> = {
+  command_of_the_message: ['cotm'],
+  miro_value_selling: ['value selling', 'value conversation'],
+};
+
+// Which resource categories answer which kind of question
+const INTENT_CATEGORIES: { category: string; pattern: RegExp }[] = [
+  { category: 'definition', pattern: /\b(scor\w*|rubric\w*|grad\w*|rat(e|ed|ing)|criteri\w*|component\w*|evaluat\w*|analy[sz]\w*)\b/ },
+  { category: 'examples', pattern: /\b(example\w*|sample\w*|rubric\w*|scor\w*|benchmark\w*|what good looks like)\b/ },
+  { category: 'methodology', pattern: /\b(how|what is|explain\w*|coach\w*|improv\w*|methodolog\w*|best practice\w*|prepar\w*|plan\w*|checklist\w*|tips?)\b/ },
+];
+
+// Mentions of frameworks in general, without naming one
+const GENERIC_FRAMEWORK_PATTERN = /\b(framework\w*|methodolog\w*|analy[sz]\w* (the |this |these |my )?calls?)\b/;
+
+const PRIORITY_WEIGHTS: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function getFrameworkContextBudget(): number {
+  const configured = parseInt(process.env.FRAMEWORK_CONTEXT_TOKEN_BUDGET || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_FRAMEWORK_CONTEXT_TOKEN_BUDGET;
+}
+
+// Names a framework goes by: its id, display name, aliases and the tags only its resources carry
+function frameworkNames(manifest: MCPResourceManifest, frameworkId: string, displayName: string): string[] {
+  const tagOwners = new Map<string, Set<string>>();
+  for (const resource of manifest.resources) {
+    for (const tag of resource.tags || []) {
+      tagOwners.set(tag, (tagOwners.get(tag) || new Set()).add(resource.framework));
+    }
+  }
+  const ownTags = [...tagOwners.entries()]
+    .filter(([, owners]) => owners.size === 1 && owners.has(frameworkId))
+    .map(([tag]) => tag)
+    .filter(tag => normalize(tag).length >= 6);
+
+  return [frameworkId, displayName, ...(FRAMEWORK_ALIASES[frameworkId] || []), ...ownTags].map(normalize);
+}
+
+/**
+ * Detect which frameworks a message is about
+ */
+export function detectFrameworks(message: string, manifest: MCPResourceManifest): string[] {
+  const text = ` ${normalize(message)} `;
+  const compactText = text.replace(/ /g, '');
+
+  return manifest.frameworks
+    .filter(framework => frameworkNames(manifest, framework.id, framework.displayName).some(name =>
+      text.includes(` ${name} `) || (name.length >= 6 && compactText.includes(name.replace(/ /g, '')))
+    ))
+    .map(framework => framework.id);
+}
+
+/**
+ * Rank the manifest resources for a message. Only resources of detected frameworks are
+ * candidates; when none is named but frameworks come up in general, the framework definitions are.
+ */
+export function selectFrameworkResources(message: string, manifest: MCPResourceManifest): MCPResourceEntry[] {
+  const text = normalize(message);
+  const frameworkIds = new Set(manifest.frameworks.map(framework => framework.id));
+  const detected = detectFrameworks(message, manifest);
+
+  let candidates: MCPResourceEntry[];
+  if (detected.length > 0) {
+    candidates = manifest.resources.filter(resource => detected.includes(resource.framework));
+  } else if (GENERIC_FRAMEWORK_PATTERN.test(text)) {
+    candidates = manifest.resources.filter(resource => frameworkIds.has(resource.framework) && resource.category === 'definition');
+  } else {
+    return [];
+  }
+
+  const intents = INTENT_CATEGORIES.filter(intent => intent.pattern.test(text)).map(intent => intent.category);
+  const wantedCategories = intents.length > 0 ? intents : ['definition', 'methodology'];
+  const words = new Set(text.split(' '));
+
+  const score = (resource: MCPResourceEntry) =>
+    (PRIORITY_WEIGHTS[resource.priority] || 0) +
+    (wantedCategories.includes(resource.category) ? 5 : 0) +
+    (resource.tags || []).filter(tag => normalize(tag).split(' ').every(word => words.has(word))).length;
+
+  const loadOrder = (resource: MCPResourceEntry) => manifest.categories?.[resource.category]?.loadOrder ?? 99;
+
+  return [...candidates].sort((a, b) => score(b) - score(a) || loadOrder(a) - loadOrder(b));
+}
+
+/**
+ * Build the framework context for the system prompt: the relevant resources loaded
+ * in full, most relevant first, within the framework context token budget.
+ */
+export async function loadFrameworkContext(message: string): Promise<string> {
+  const manifest = await fetchMCPResourceManifest();
+  if (!manifest) {
+    return '';
+  }
+
+  const selected = selectFrameworkResources(message, manifest);
+  if (selected.length === 0) {
+    return '';
+  }
+
+  const budget = getFrameworkContextBudget();
+  let usedTokens = 0;
+  let frameworkContext = '';
+
+  for (const resource of selected) {
+    // Skip resources that clearly won't fit before fetching them
+    if (usedTokens + Math.ceil(resource.estimatedSize / 4) > budget) {
+      continue;
+    }
+
+    const content = await fetchMCPResource(resource.uri);
+    if (!content?.text) {
+      continue;
+    }
+
+    const section = `\n\n## ${resource.name}\n${content.text}`;
+    const tokens = estimateTokens(section);
+    if (usedTokens + tokens > budget) {
+      continue;
+    }
+
+    frameworkContext += section;
+    usedTokens += tokens;
+    console.log(`📖 Framework context: ${resource.uri} (~${tokens} tokens)`);
+  }
+
+  console.log(`📚 Framework context uses ~${usedTokens}/${budget} tokens`);
+  return frameworkContext;
+}
@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { conversations, messages } from '../db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { ToolCall } from '../../types/chat';
+
+type AnthropicMessage = { role: 'user' | 'assistant'; content: any };
+
+// Append a message, merging it into the previous one when the roles match
+// (the Messages API expects user and assistant turns to alternate)
+function pushMessage(target: AnthropicMessage[], message: AnthropicMessage) {
+  const previous = target[target.length - 1];
+  if (!previous || previous.role !== message.role) {
+    target.push(message);
+    return;
+  }
+
+  const toBlocks = (content: any) =>
+    typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  previous.content = [...toBlocks(previous.content), ...toBlocks(message.content)];
+}
+
+// Rebuild the tool_use / tool_result exchange stored in an assistant message's toolCalls
+function toolRounds(messageId: string, toolCalls: ToolCall[]): AnthropicMessage[] {
+  const rounds = new Map<number, ToolCall[]>();
+  for (const toolCall of toolCalls) {
+    const step = toolCall.step ?? 0;
+    rounds.set(step, [...(rounds.get(step) || []), toolCall]);
+  }
+
+  const result: AnthropicMessage[] = [];
+  for (const step of [...rounds.keys()].sort((a, b) => a - b)) {
+    const calls = rounds.get(step)!.map((toolCall, index) => ({
+      ...toolCall,
+      // Rows saved before tool ids were stored still need a stable, unique id
+      id: toolCall.id || `toolu_${messageId.replace(/-/g, '')}_${step}_${index}`,
+    }));
+
+    result.push({
+      role: 'assistant',
+      content: calls.map(toolCall => ({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.name,
+        input: toolCall.arguments || {},
+      })),
+    });
+    result.push({
+      role: 'user',
+      content: calls.map(toolCall => toolCall.status === 'error'
+        ? {
+          type: 'tool_result',
+          tool_use_id: toolCall.id,
+          content: `Tool execution failed: ${toolCall.error || 'Unknown error'}`,
+          is_error: true,
+        }
+        : {
+          type: 'tool_result',
+          tool_use_id: toolCall.id,
+          content: JSON.stringify(toolCall.result ?? null),
+        }),
+    });
+  }
+  return result;
+}
+
+export interface ConversationHistory {
+  history: AnthropicMessage[];
+  // Summary standing in for the messages that are no longer replayed
+  summary: string | null;
+}
+
+/**
+ * Rebuild the Anthropic message list for a conversation from the messages table,
+ * including the tool calls the model made in earlier turns. Messages already folded
+ * into the conversation summary are skipped.
+ */
+export async function loadConversationHistory(conversationId: string): Promise<ConversationHistory> {
+  const [conversation] = await db
+    .select({ summary: conversations.summary, summarizedMessageCount: conversations.summarizedMessageCount })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId))
+    .limit(1);
+
+  const rows = await db
+    .select()
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(asc(messages.createdAt))
+    .offset(conversation?.summarizedMessageCount ?? 0);
+
+  const history: AnthropicMessage[] = [];
+  for (const row of rows) {
+    if (row.role === 'user') {
+      pushMessage(history, { role: 'user', content: row.content });
+      continue;
+    }
+    if (row.role !== 'assistant') {
+      continue;
+    }
+
+    const toolCalls = Array.isArray(row.toolCalls) ? (row.toolCalls as ToolCall[]) : [];
+    for (const message of toolRounds(row.id, toolCalls)) {
+      pushMessage(history, message);
+    }
+    if (row.content.trim()) {
+      pushMessage(history, { role: 'assistant', content: row.content });
+    }
+  }
+
+  // The conversation must start with a user turn and the new message is appended as one
+  while (history.length > 0 && history[0].role !== 'user') {
+    history.shift();
+  }
+  if (history.length > 0 && history[history.length - 1].role === 'user') {
+    pushMessage(history, { role: 'assistant', content: '(No response)' });
+  }
+
+  return { history, summary: conversation?.summary ?? null };
+}
@@ -0,0 +1,27 @@
+import { isAdmin } from '../auth';
+import { ModelOverrides, parseModelOverrides } from '../../services/model-routing';
+
+export type ModelOverridesResult =
+  | { ok: true; overrides?: ModelOverrides }
+  | { ok: false; status: 400 | 403; error: string };
+
+/**
+ * Validate the optional `modelOverrides` from a chat request body. Only admins may override
+ * the per-task model routing; everyone else gets the configured settings.
+ */
+export function readModelOverrides(user: { email?: string | null }, value: unknown): ModelOverridesResult {
+  if (value === undefined || value === null) {
+    return { ok: true };
+  }
+
+  if (!isAdmin(user)) {
+    return { ok: false, status: 403, error: 'Only admins can override model settings' };
+  }
+
+  try {
+    return { ok: true, overrides: parseModelOverrides(value) };
+  } catch (error) {
+    console.warn('Invalid model overrides:', error);
+    return { ok: false, status: 400, error: 'Invalid model overrides' };
+  }
+}
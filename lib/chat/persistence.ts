@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { conversations, messages } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+
+// Save the user message and assistant reply for a conversation turn
+export async function saveChatTurn(
+  conversationId: string,
+  userMessage: string,
+  assistantResponse: string,
+  toolCalls: any[]
+) {
+  try {
+    // Save user message
+    await db.insert(messages).values({
+      conversationId,
+      role: 'user',
+      content: userMessage,
+    });
+
+    // Save assistant message
+    await db.insert(messages).values({
+      conversationId,
+      role: 'assistant',
+      content: assistantResponse,
+      toolCalls: toolCalls.length > 0 ? toolCalls : null,
+    });
+
+    // Update conversation timestamp
+    await db
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, conversationId));
+
+  } catch (dbError) {
+    console.error('Error saving conversation:', dbError);
+    // Continue anyway - don't fail the request due to DB issues
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Resolve the conversation for a chat turn: verify ownership of an existing one, or start
+// a new one titled after the first message. Returns null when the user doesn't own it.
+export async function resolveConversation(
+  userId: string,
+  conversationId: string | undefined,
+  firstMessage: string
+): Promise<string | null> {
+  if (conversationId) {
+    if (!UUID_PATTERN.test(conversationId)) {
+      return null;
+    }
+
+    const [conversation] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(eq(conversations.id, conversationId), eq(conversations.userId, userId)))
+      .limit(1);
+    return conversation?.id ?? null;
+  }
+
+  const title = firstMessage.trim().length > 60
+    ? `${firstMessage.trim().substring(0, 57)}...`
+    : firstMessage.trim();
+
+  const [newConversation] = await db
+    .insert(conversations)
+    .values({ userId, title })
+    .returning();
+
+  return newConversation.id;
+}
@@ -0,0 +1,260 @@
+import type { ToolUseBlock } from '@anthropic-ai/sdk/resources/messages';
+import { getLLMProvider } from '../../services/llm-provider';
+import { getModelSettings, taskRequest } from '../../services/model-routing';
+import { MCPTool, callMCPTool, fetchMCPResources, fetchMCPTools } from '../mcp';
+import { buildSystemMessage } from './system-prompt';
+import { loadFrameworkContext } from './framework-context';
+import { estimateTokens, fitMessagesToBudget, getContextTokenBudget } from './context-budget';
+import { ToolCall } from '../../types/chat';
+
+/**
+ * Incremental events emitted while a chat turn is running.
+ * The streaming route forwards these to the browser as Server-Sent Events.
+ */
+export type ChatEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_use_start'; id: string; name: string; input: any }
+  | { type: 'tool_use_end'; toolCall: ToolCall }
+  | { type: 'citations'; citations: any[] };
+
+export interface ChatTurnResult {
+  response: string;
+  toolCalls: ToolCall[];
+  citations: any[];
+}
+
+interface RunChatTurnOptions {
+  message: string;
+  // Prior conversation in Anthropic message format (see loadConversationHistory)
+  history: any[];
+  // Stored summary of turns that are no longer part of the history
+  summary?: string | null;
+  onEvent?: (event: ChatEvent) => void;
+  // Maximum number of tool rounds before the model must answer (defaults to CHAT_MAX_TOOL_STEPS)
+  maxSteps?: number;
+}
+
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+function getMaxToolSteps(): number {
+  const configured = parseInt(process.env.CHAT_MAX_TOOL_STEPS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_TOOL_STEPS;
+}
+
+// Maximum number of tool calls from a single response executed at the same time
+const TOOL_CONCURRENCY_LIMIT = 4;
+
+interface ToolExecution {
+  toolCall: ToolCall;
+  toolResult: any;
+  citations: any[];
+  needsUrlReminder: boolean;
+}
+
+/**
+ * Execute a single tool_use block via the MCP service. Failures are returned as an
+ * error tool_result so the model can see them, never thrown.
+ */
+async function executeToolUse(content: ToolUseBlock, step: number, emit: (event: ChatEvent) => void): Promise<ToolExecution> {
+  emit({ type: 'tool_use_start', id: content.id, name: content.name, input: content.input });
+
+  try {
+    const toolResult = await callMCPTool(content.name, content.input);
+
+    const citations = toolResult.citations && Array.isArray(toolResult.citations) ? toolResult.citations : [];
+    if (citations.length > 0) {
+      emit({ type: 'citations', citations });
+    }
+
+    const toolCall: ToolCall = {
+      id: content.id,
+      name: content.name,
+      arguments: content.input as Record<string, any>,
+      result: toolResult,
+      status: 'success',
+      step,
+    };
+    emit({ type: 'tool_use_end', toolCall });
+
+    return {
+      toolCall,
+      toolResult: {
+        type: 'tool_result',
+        tool_use_id: content.id,
+        content: JSON.stringify(toolResult),
+      },
+      citations,
+      needsUrlReminder: !!(toolResult.matches || toolResult.recommendations || toolResult.url || toolResult.citations),
+    };
+
+  } catch (error) {
+    console.error(`Tool execution failed for ${content.name}:`, error);
+    const toolCall: ToolCall = {
+      id: content.id,
+      name: content.name,
+      arguments: content.input as Record<string, any>,
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      step,
+    };
+    emit({ type: 'tool_use_end', toolCall });
+
+    // Let the model see the failure so it can retry or explain
+    return {
+      toolCall,
+      toolResult: {
+        type: 'tool_result',
+        tool_use_id: content.id,
+        content: `Tool execution failed: ${toolCall.error}`,
+        is_error: true,
+      },
+      citations: [],
+      needsUrlReminder: false,
+    };
+  }
+}
+
+/**
+ * Run one chat turn: gather MCP context, then call the model and execute the tools it
+ * requests, round after round, until it produces its final reply.
+ */
+export async function runChatTurn(options: RunChatTurnOptions): Promise<ChatTurnResult> {
+  const { message, history, onEvent } = options;
+  const emit = (event: ChatEvent) => onEvent?.(event);
+
+  // Fetch available MCP resources
+  const resources = await fetchMCPResources();
+  console.log('📚 Available MCP resources:', resources.length);
+
+  // Methodology and rubrics for the frameworks this message is about
+  const frameworkContext = await loadFrameworkContext(message);
+
+  // Fetch available MCP tools
+  console.log('About to fetch MCP tools...');
+  const mcpTools: MCPTool[] = await fetchMCPTools();
+  console.log('MCP tools fetched, count:', mcpTools.length);
+
+  const anthropicMessages: any[] = [...history];
+
+  // Add the new user message
+  anthropicMessages.push({
+    role: 'user',
+    content: message,
+  });
+
+  const provider = getLLMProvider();
+
+  const maxSteps = options.maxSteps ?? getMaxToolSteps();
+  const systemMessage = buildSystemMessage(mcpTools, resources, frameworkContext, options.summary);
+
+  // Whatever the system prompt, tools and response don't use is left for messages
+  const maxTokens = Math.max(getModelSettings('chat', provider).maxTokens, getModelSettings('follow_up', provider).maxTokens);
+  const messageBudget = getContextTokenBudget() - estimateTokens(systemMessage) - estimateTokens(mcpTools) - maxTokens;
+  const currentTurnStart = history.length;
+
+  let finalResponse = '';
+  const toolCalls: ToolCall[] = [];
+  const citations: any[] = [];
+
+  // Text from later steps starts a new paragraph
+  let separateNextText = false;
+  const appendText = (delta: string) => {
+    if (separateNextText && finalResponse) {
+      finalResponse += '\n\n';
+      emit({ type: 'text', delta: '\n\n' });
+    }
+    separateNextText = false;
+    finalResponse += delta;
+    emit({ type: 'text', delta });
+  };
+
+  // Agentic loop: keep feeding tool results back (with tools attached) until the
+  // model ends its turn or the step limit is reached
+  for (let step = 0; ; step++) {
+    const limitReached = step >= maxSteps;
+
+    console.log(`About to call Anthropic API (step ${step + 1}) with tools:`, mcpTools.length);
+    console.log('Anthropic messages count:', anthropicMessages.length);
+
+    // The first call answers the user; later ones follow up on tool results
+    const { params, options: requestOptions } = taskRequest(step === 0 ? 'chat' : 'follow_up', provider);
+
+    let response;
+    try {
+      response = await provider.streamMessage({
+        ...params,
+        messages: fitMessagesToBudget(anthropicMessages, messageBudget, currentTurnStart),
+        tools: mcpTools,
+        // Once the limit is hit the model must answer with what it has
+        ...(limitReached && mcpTools.length > 0 ? { tool_choice: { type: 'none' } } : {}),
+        system: systemMessage
+      }, appendText, requestOptions);
+
+      console.log('Anthropic API call successful, stop reason:', response.stop_reason);
+    } catch (error) {
+      console.error('Anthropic API call failed:', error);
+      console.error('Error details:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : 'No stack trace',
+        tools: mcpTools,
+        messages: anthropicMessages
+      });
+      throw error;
+    }
+
+    const toolUses = response.content.filter((content): content is ToolUseBlock => content.type === 'tool_use');
+    if (response.stop_reason !== 'tool_use' || toolUses.length === 0 || limitReached) {
+      break;
+    }
+
+    // Execute every tool_use block from this response, a batch at a time
+    console.log(`🔧 Executing ${toolUses.length} tool call(s) with concurrency limit ${TOOL_CONCURRENCY_LIMIT}`);
+    const executions: ToolExecution[] = [];
+    for (let i = 0; i < toolUses.length; i += TOOL_CONCURRENCY_LIMIT) {
+      const batch = toolUses.slice(i, i + TOOL_CONCURRENCY_LIMIT);
+      executions.push(...await Promise.all(batch.map((content) => executeToolUse(content, step, emit))));
+    }
+
+    // All tool_result blocks go back together in a single user message, in tool_use order
+    const toolResults: any[] = [];
+    let needsUrlReminder = false;
+    for (const execution of executions) {
+      toolCalls.push(execution.toolCall);
+      toolResults.push(execution.toolResult);
+
+      // Collect citations from web search results
+      if (execution.citations.length > 0) {
+        citations.push(...execution.citations);
+      }
+      needsUrlReminder = needsUrlReminder || execution.needsUrlReminder;
+    }
+
+    // Add a reminder about including URLs and citations in the next response
+    if (needsUrlReminder) {
+      toolResults.push({
+        type: 'text',
+        text: 'Remember to include all URLs and links in your response text. Format them as clickable markdown links like [Title](URL). If there are citations from web search results, make sure to reference them properly.',
+      });
+    }
+
+    if (step + 1 >= maxSteps) {
+      console.warn(`⚠️ Tool step limit (${maxSteps}) reached, asking for a final answer`);
+      toolResults.push({
+        type: 'text',
+        text: 'The tool call limit for this message has been reached. Answer now using the information gathered so far, and mention anything you could not complete.',
+      });
+    }
+
+    anthropicMessages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: toolResults },
+    );
+    separateNextText = true;
+  }
+
+  return {
+    response: finalResponse,
+    toolCalls,
+    citations,
+  };
+}
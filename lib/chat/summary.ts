@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { conversations, messages } from '../db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { getLLMProvider } from '../../services/llm-provider';
+import { taskRequest } from '../../services/model-routing';
+import { estimateTokens, getContextTokenBudget } from './context-budget';
+import { ToolCall } from '../../types/chat';
+
+// Most recent messages that always stay verbatim in the history
+const KEEP_RECENT_MESSAGES = 6;
+
+// Tool results are shortened to this many characters when shown to the summarizer
+const SUMMARY_TOOL_RESULT_CHARS = 1500;
+
+// Summarize once the replayed history passes this share of the context budget
+function getSummaryThreshold(): number {
+  const configured = parseInt(process.env.CHAT_SUMMARY_THRESHOLD_TOKENS || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : Math.floor(getContextTokenBudget() * 0.5);
+}
+
+function renderMessage(row: typeof messages.$inferSelect): string {
+  let text = `${row.role === 'user' ? 'User' : 'Assistant'}: ${row.content}`;
+
+  const toolCalls = Array.isArray(row.toolCalls) ? (row.toolCalls as ToolCall[]) : [];
+  for (const toolCall of toolCalls) {
+    const outcome = toolCall.status === 'error'
+      ? `failed: ${toolCall.error}`
+      : JSON.stringify(toolCall.result ?? null).substring(0, SUMMARY_TOOL_RESULT_CHARS);
+    text += `\n[Tool ${toolCall.name}(${JSON.stringify(toolCall.arguments || {})}) -> ${outcome}]`;
+  }
+  return text;
+}
+
+/**
+ * Fold older turns into the stored conversation summary once the history replayed to the
+ * model grows past the threshold. Never throws - a failed summary just means a larger prompt.
+ */
+export async function maybeSummarizeConversation(conversationId: string): Promise<void> {
+  try {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+    if (!conversation) return;
+
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt))
+      .offset(conversation.summarizedMessageCount);
+
+    const historyTokens = rows.reduce((total, row) => total + estimateTokens(row.content) + estimateTokens(row.toolCalls), 0);
+    const threshold = getSummaryThreshold();
+    if (historyTokens < threshold || rows.length <= KEEP_RECENT_MESSAGES) {
+      return;
+    }
+
+    // Summarize everything but the most recent messages, ending on a complete exchange
+    let cutoff = rows.length - KEEP_RECENT_MESSAGES;
+    while (cutoff > 0 && rows[cutoff].role !== 'user') {
+      cutoff--;
+    }
+    if (cutoff === 0) return;
+
+    const provider = getLLMProvider();
+    const { params, options } = taskRequest('summarization', provider);
+
+    console.log(`📝 Summarizing ${cutoff} messages of conversation ${conversationId} (~${historyTokens} tokens of history)`);
+
+    const response = await provider.createMessage({
+      ...params,
+      system: 'You maintain a running summary of a conversation between a user and an assistant that analyzes Gong sales calls and Miro boards. Merge the new turns into the existing summary. Keep the facts needed to continue the conversation: call IDs and titles, board IDs and URLs, framework scores and key findings, decisions, and open requests. Answer with the updated summary only.',
+      messages: [{
+        role: 'user',
+        content: `Existing summary:\n${conversation.summary || '(none)'}\n\nNew turns:\n${rows.slice(0, cutoff).map(renderMessage).join('\n\n')}`,
+      }],
+    }, options);
+
+    const summary = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('')
+      .trim();
+    if (!summary) return;
+
+    await db
+      .update(conversations)
+      .set({
+        summary,
+        summarizedMessageCount: conversation.summarizedMessageCount + cutoff,
+      })
+      .where(eq(conversations.id, conversationId));
+
+    console.log(`✅ Conversation ${conversationId} summary updated`);
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+  }
+}
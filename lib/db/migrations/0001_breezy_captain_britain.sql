@@ -0,0 +1,2 @@
+ALTER TABLE "conversations" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "summarized_message_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
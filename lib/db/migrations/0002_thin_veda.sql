@@ -0,0 +1,56 @@
+CREATE TABLE "analysis_citations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sub_component_score_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"speaker" text,
+	"timestamp" text,
+	"quote" text NOT NULL,
+	"context" text,
+	"url" text
+);
+--> statement-breakpoint
+CREATE TABLE "call_analyses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"call_id" text NOT NULL,
+	"framework" text NOT NULL,
+	"framework_version" text NOT NULL,
+	"prompt_version" text NOT NULL,
+	"model" text,
+	"call_title" text,
+	"call_url" text,
+	"call_date" text,
+	"duration" text,
+	"participants" jsonb,
+	"overall_score" real,
+	"analysis_status" text NOT NULL,
+	"analysis" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "component_scores" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"analysis_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"overall_score" real,
+	"key_findings" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "sub_component_scores" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"component_score_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"score" real,
+	"qualitative_assessment" text,
+	"improvement_suggestions" jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_citations" ADD CONSTRAINT "analysis_citations_sub_component_score_id_sub_component_scores_id_fk" FOREIGN KEY ("sub_component_score_id") REFERENCES "public"."sub_component_scores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "component_scores" ADD CONSTRAINT "component_scores_analysis_id_call_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."call_analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sub_component_scores" ADD CONSTRAINT "sub_component_scores_component_score_id_component_scores_id_fk" FOREIGN KEY ("component_score_id") REFERENCES "public"."component_scores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analysis_citations_sub_component_idx" ON "analysis_citations" USING btree ("sub_component_score_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "call_analyses_key_idx" ON "call_analyses" USING btree ("call_id","framework","framework_version","prompt_version");--> statement-breakpoint
+CREATE INDEX "component_scores_analysis_idx" ON "component_scores" USING btree ("analysis_id");--> statement-breakpoint
+CREATE INDEX "sub_component_scores_component_idx" ON "sub_component_scores" USING btree ("component_score_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "call_analyses" ADD COLUMN "call_started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "call_analyses" ADD COLUMN "rep_user_id" text;--> statement-breakpoint
+ALTER TABLE "call_analyses" ADD COLUMN "rep_name" text;--> statement-breakpoint
+ALTER TABLE "call_analyses" ADD COLUMN "rep_email" text;--> statement-breakpoint
+CREATE INDEX "call_analyses_framework_started_idx" ON "call_analyses" USING btree ("framework","call_started_at");
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, uuid, jsonb, integer, real, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
 export const users = pgTable("user", {
@@ -48,6 +48,8 @@ export const conversations = pgTable("conversations", {
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
+  summary: text("summary"), // Running summary of older turns, used in place of them in the model context
+  summarizedMessageCount: integer("summarized_message_count").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -63,6 +65,77 @@ export const messages = pgTable("messages", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Framework analysis tables, written by the MCP service (services/analysis-store.ts).
+// An analysis is reused for the same call, framework, framework version and prompt version.
+export const callAnalyses = pgTable("call_analyses", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  callId: text("call_id").notNull(),
+  framework: text("framework").notNull(), // Framework id, e.g. "great_demo"
+  frameworkVersion: text("framework_version").notNull(),
+  promptVersion: text("prompt_version").notNull(), // Hash of the analysis prompt templates
+  model: text("model"),
+  callTitle: text("call_title"),
+  callUrl: text("call_url"),
+  callDate: text("call_date"),
+  callStartedAt: timestamp("call_started_at", { mode: "date" }),
+  duration: text("duration"),
+  participants: jsonb("participants"),
+  // Internal rep the call is attributed to (from Gong party data)
+  repUserId: text("rep_user_id"),
+  repName: text("rep_name"),
+  repEmail: text("rep_email"),
+  overallScore: real("overall_score"),
+  analysisStatus: text("analysis_status").notNull(), // 'completed', 'error', 'incomplete'
+  analysis: jsonb("analysis").notNull(), // The full CallAnalysis as returned to callers
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  analysisKey: uniqueIndex("call_analyses_key_idx").on(table.callId, table.framework, table.frameworkVersion, table.promptVersion),
+  frameworkStartedIdx: index("call_analyses_framework_started_idx").on(table.framework, table.callStartedAt),
+}));
+
+export const componentScores = pgTable("component_scores", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  analysisId: uuid("analysis_id")
+    .notNull()
+    .references(() => callAnalyses.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  overallScore: real("overall_score"),
+  keyFindings: jsonb("key_findings"),
+}, (table) => ({
+  analysisIdx: index("component_scores_analysis_idx").on(table.analysisId),
+}));
+
+export const subComponentScores = pgTable("sub_component_scores", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  componentScoreId: uuid("component_score_id")
+    .notNull()
+    .references(() => componentScores.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  score: real("score"),
+  qualitativeAssessment: text("qualitative_assessment"),
+  improvementSuggestions: jsonb("improvement_suggestions"),
+}, (table) => ({
+  componentIdx: index("sub_component_scores_component_idx").on(table.componentScoreId),
+}));
+
+export const analysisCitations = pgTable("analysis_citations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  subComponentScoreId: uuid("sub_component_score_id")
+    .notNull()
+    .references(() => subComponentScores.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  speaker: text("speaker"), // Null when the model gave plain-text evidence
+  timestamp: text("timestamp"),
+  quote: text("quote").notNull(),
+  context: text("context"),
+  url: text("url"),
+}, (table) => ({
+  subComponentIdx: index("analysis_citations_sub_component_idx").on(table.subComponentScoreId),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   accounts: many(accounts),
@@ -92,6 +165,33 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
   messages: many(messages),
 }));
 
+export const callAnalysesRelations = relations(callAnalyses, ({ many }) => ({
+  componentScores: many(componentScores),
+}));
+
+export const componentScoresRelations = relations(componentScores, ({ one, many }) => ({
+  analysis: one(callAnalyses, {
+    fields: [componentScores.analysisId],
+    references: [callAnalyses.id],
+  }),
+  subComponentScores: many(subComponentScores),
+}));
+
+export const subComponentScoresRelations = relations(subComponentScores, ({ one, many }) => ({
+  componentScore: one(componentScores, {
+    fields: [subComponentScores.componentScoreId],
+    references: [componentScores.id],
+  }),
+  citations: many(analysisCitations),
+}));
+
+export const analysisCitationsRelations = relations(analysisCitations, ({ one }) => ({
+  subComponentScore: one(subComponentScores, {
+    fields: [analysisCitations.subComponentScoreId],
+    references: [subComponentScores.id],
+  }),
+}));
+
 export const messagesRelations = relations(messages, ({ one }) => ({
   conversation: one(conversations, {
     fields: [messages.conversationId],
@@ -104,4 +204,9 @@ export type NewUser = typeof users.$inferInsert;
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 export type Message = typeof messages.$inferSelect;
-export type NewMessage = typeof messages.$inferInsert;
\ No newline at end of file
+export type NewMessage = typeof messages.$inferInsert;
+export type CallAnalysisRecord = typeof callAnalyses.$inferSelect;
+export type NewCallAnalysisRecord = typeof callAnalyses.$inferInsert;
+export type ComponentScore = typeof componentScores.$inferSelect;
+export type SubComponentScoreRecord = typeof subComponentScores.$inferSelect;
+export type AnalysisCitation = typeof analysisCitations.$inferSelect;
\ No newline at end of file
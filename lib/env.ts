@@ -9,7 +9,17 @@ const envSchema = z.object({
   MIRO_MCP_SERVICE_URL: z.string().url().optional(),
   MIRO_ACCESS_TOKEN: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
+  LLM_PROVIDER: z.enum(['bedrock', 'anthropic', 'mock']).optional(),
+  LLM_MOCK_FIXTURES: z.string().optional(),
+  LLM_MODEL_ROUTING: z.string().optional(),
+  ADMIN_EMAILS: z.string().optional(),
+  REP_TEAMS: z.string().optional(),
   SERVICE_API_KEY: z.string().optional(),
+  MCP_CACHE_TTL_MS: z.string().optional(),
+  CHAT_MAX_TOOL_STEPS: z.string().optional(),
+  CHAT_CONTEXT_TOKEN_BUDGET: z.string().optional(),
+  CHAT_SUMMARY_THRESHOLD_TOKENS: z.string().optional(),
+  FRAMEWORK_CONTEXT_TOKEN_BUDGET: z.string().optional(),
 });
 
 // Export raw environment variables without validation
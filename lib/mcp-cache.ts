@@ -0,0 +1,87 @@
+// In-process cache for read-only MCP service listings (tools, resources, manifest).
+// Entries are served for MCP_CACHE_TTL_MS, then revalidated with If-None-Match. Every MCP service
+// response carries X-Manifest-Version; when it changes, everything cached under the old version is dropped.
+
+interface CacheEntry {
+  data: any;
+  etag: string | null;
+  manifestVersion: string | null;
+  fetchedAt: number;
+}
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<any>>();
+let currentManifestVersion: string | null = null;
+
+function getCacheTtl(): number {
+  const configured = parseInt(process.env.MCP_CACHE_TTL_MS || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CACHE_TTL_MS;
+}
+
+/**
+ * Record the manifest version reported by the MCP service, invalidating the cache when it changes
+ */
+export function noteManifestVersion(response: Response) {
+  const version = response.headers.get('x-manifest-version');
+  if (!version || version === currentManifestVersion) {
+    return;
+  }
+
+  if (currentManifestVersion !== null) {
+    console.log(`🔄 MCP manifest version changed ${currentManifestVersion} -> ${version}, clearing cache`);
+    cache.clear();
+  }
+  currentManifestVersion = version;
+}
+
+async function revalidate(path: string): Promise<any> {
+  const cached = cache.get(path);
+
+  const response = await fetch(`${process.env.MIRO_MCP_SERVICE_URL}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${process.env.SERVICE_API_KEY}`,
+      ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+    },
+  });
+  noteManifestVersion(response);
+
+  // Still valid - cache.clear() above may have dropped it, so store it again
+  if (response.status === 304 && cached) {
+    cache.set(path, { ...cached, manifestVersion: currentManifestVersion, fetchedAt: Date.now() });
+    return cached.data;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`MCP service ${path} failed: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  cache.set(path, {
+    data,
+    etag: response.headers.get('etag'),
+    manifestVersion: currentManifestVersion,
+    fetchedAt: Date.now(),
+  });
+  return data;
+}
+
+/**
+ * GET a JSON document from the MCP service through the cache. Throws when the service fails.
+ */
+export async function fetchMCPCached(path: string): Promise<any> {
+  const cached = cache.get(path);
+  if (cached && cached.manifestVersion === currentManifestVersion && Date.now() - cached.fetchedAt < getCacheTtl()) {
+    return cached.data;
+  }
+
+  // Concurrent requests for the same path share one fetch
+  let pending = inFlight.get(path);
+  if (!pending) {
+    pending = revalidate(path).finally(() => inFlight.delete(path));
+    inFlight.set(path, pending);
+  }
+  return pending;
+}
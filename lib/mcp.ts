@@ -0,0 +1,136 @@
+import { fetchMCPCached, noteManifestVersion } from './mcp-cache';
+import { getModelOverrides } from '../services/model-routing';
+
+// Helpers for talking to the MCP HTTP service (services/miro-http-service.ts)
+
+export interface MCPTool {
+  name: string;
+  description: string;
+  input_schema: any;
+}
+
+// Resource metadata from the MCP service manifest (services/resources/manifest.json)
+export interface MCPResourceEntry {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  category: string;
+  framework: string;
+  tags: string[];
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  estimatedSize: number;
+}
+
+export interface MCPFrameworkEntry {
+  id: string;
+  displayName: string;
+  description: string;
+  resources: string[];
+}
+
+export interface MCPResourceManifest {
+  version: string;
+  lastUpdated: string;
+  resources: MCPResourceEntry[];
+  frameworks: MCPFrameworkEntry[];
+  categories: Record<string, { description: string; priority: string; loadOrder: number }>;
+}
+
+// Fetch MCP resources
+export async function fetchMCPResources() {
+  try {
+    const data = await fetchMCPCached('/resources');
+    return data.resources || [];
+  } catch (error) {
+    console.warn('Error fetching MCP resources:', error);
+    return [];
+  }
+}
+
+// Fetch the resource manifest with framework, category, priority and tag metadata
+export async function fetchMCPResourceManifest(): Promise<MCPResourceManifest | null> {
+  try {
+    return await fetchMCPCached('/resources/manifest');
+  } catch (error) {
+    console.warn('Error fetching MCP resource manifest:', error);
+    return null;
+  }
+}
+
+// Fetch specific resource content
+export async function fetchMCPResource(uri: string) {
+  try {
+    const data = await fetchMCPCached(`/resources${uri}`);
+    return data.contents?.[0] || null;
+  } catch (error) {
+    console.warn(`Error fetching MCP resource ${uri}:`, error);
+    return null;
+  }
+}
+
+// Fetch available tools from MCP service
+export async function fetchMCPTools(): Promise<MCPTool[]> {
+  try {
+    const data = await fetchMCPCached('/tools');
+
+    // Convert MCP tools to Anthropic format
+    return data.tools.map((tool: any) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    }));
+  } catch (error) {
+    console.error('Error fetching MCP tools:', error);
+    return [];
+  }
+}
+
+// Call MCP service tool
+export async function callMCPTool(name: string, args: any) {
+  try {
+    // Admin model overrides for this request also apply to LLM calls made by the tool
+    const modelOverrides = getModelOverrides();
+
+    const response = await fetch(`${process.env.MIRO_MCP_SERVICE_URL}/tools/call`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.SERVICE_API_KEY}`,
+        ...(modelOverrides ? { 'X-Model-Overrides': JSON.stringify(modelOverrides) } : {}),
+      },
+      body: JSON.stringify({ name, arguments: args }),
+    });
+    noteManifestVersion(response);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Tool execution failed');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error calling MCP tool ${name}:`, error);
+    throw error;
+  }
+}
+
+// Call one of the MCP service's REST endpoints. Returns the status with the JSON body so API routes can
+// pass validation (400) and conflict (409) responses through to the browser.
+export async function requestMCPService<T = any>(
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<{ status: number; data: T }> {
+  const response = await fetch(`${process.env.MIRO_MCP_SERVICE_URL}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.SERVICE_API_KEY}`,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    cache: 'no-store',
+  });
+  noteManifestVersion(response);
+
+  return { status: response.status, data: await response.json() };
+}
@@ -0,0 +1,267 @@
+// services/account-rollup.ts
+// Deal-level view of one account: every call with the customer, scored against a framework and taken in call
+// order, rolled up into which framework components were covered across the sales cycle, which discovery gaps
+// are still open and how stakeholder coverage changed. Used by the get_account_rollup MCP tool and the
+// /dashboard/accounts page.
+import type { CallAnalysis } from './framework-definitions';
+import { isScoredAnalysis } from './framework-scoring';
+
+export type ComponentCoverageStatus = 'strong' | 'covered' | 'weak' | 'not_covered';
+
+export interface AccountCallSummary {
+    callId: string;
+    callTitle: string;
+    callUrl: string;
+    callDate: string;
+    callStartedAt?: string;
+    rep?: string;
+    overallScore: number | null;
+    analysisStatus: CallAnalysis['analysisStatus'];
+}
+
+export interface ComponentCoverage {
+    name: string;
+    // Score on each call in call order, null when the call didn't score the component
+    scores: Array<number | null>;
+    bestScore: number | null;
+    latestScore: number | null;
+    firstCoveredCallId?: string;
+    callsCovered: number;
+    status: ComponentCoverageStatus;
+}
+
+// A discovery gap or unanswered question, merged across the calls that raised it
+export interface TrackedItem {
+    text: string;
+    detail?: string;
+    frameworkComponent?: string;
+    firstRaisedCallId: string;
+    lastRaisedCallId: string;
+    timesRaised: number;
+}
+
+export interface StakeholderSnapshot {
+    callId: string;
+    callDate: string;
+    participants: string[];
+    newParticipants: string[];
+    missingStakeholders: string[];
+}
+
+export interface AccountRollup {
+    account: string;
+    framework: string;
+    generatedAt: string;
+    totalCalls: number;
+    scoredCalls: number;
+    calls: AccountCallSummary[];
+    scoreProgression: { first: number | null; latest: number | null; change: number | null };
+    componentCoverage: ComponentCoverage[];
+    // Open: raised on the latest scored call. No longer raised: only raised on earlier calls, likely addressed since.
+    discoveryGaps: { open: TrackedItem[]; noLongerRaised: TrackedItem[] };
+    unansweredQuestions: { open: TrackedItem[]; noLongerRaised: TrackedItem[] };
+    stakeholders: {
+        timeline: StakeholderSnapshot[];
+        participants: Array<{ name: string; firstSeenCallId: string; callsAttended: number }>;
+        // Named as missing on the latest scored call and not seen on any call so far
+        stillMissing: string[];
+    };
+}
+
+// Component scores are on the 1-10 scale
+const COVERED_SCORE = 5;
+const STRONG_SCORE = 7;
+
+// Token overlap at which two gaps or questions from different calls count as the same one
+const SAME_ITEM_SIMILARITY = 0.6;
+
+/**
+ * Roll up analyses of one account's calls for a single framework. Analyses may arrive in any order;
+ * they are sorted by call start time, oldest first.
+ */
+export function buildAccountRollup(account: string, framework: string, analyses: CallAnalysis[]): AccountRollup {
+    const ordered = [...analyses].sort((a, b) => callTime(a) - callTime(b));
+    // Failed analyses stay in the call list but add nothing to scores, coverage or gaps
+    const scored = ordered.filter(isScoredAnalysis);
+    const latest = scored[scored.length - 1];
+
+    const first = scored[0]?.overallScore ?? null;
+    const last = latest?.overallScore ?? null;
+
+    return {
+        account,
+        framework,
+        generatedAt: new Date().toISOString(),
+        totalCalls: ordered.length,
+        scoredCalls: scored.length,
+        calls: ordered.map(analysis => ({
+            callId: analysis.callId,
+            callTitle: analysis.callTitle,
+            callUrl: analysis.callUrl,
+            callDate: analysis.callDate,
+            callStartedAt: analysis.callStartedAt,
+            rep: analysis.rep?.name,
+            overallScore: analysis.overallScore,
+            analysisStatus: analysis.analysisStatus
+        })),
+        scoreProgression: {
+            first,
+            latest: last,
+            change: scored.length > 1 && first !== null && last !== null ? round(last - first) : null
+        },
+        componentCoverage: buildComponentCoverage(scored),
+        discoveryGaps: splitByLatest(trackItems(scored, analysis =>
+            (analysis.followUpCallPlanning?.discoveryGaps || []).map(gap => ({
+                text: gap.gapArea,
+                detail: gap.impact
+            }))
+        ), latest),
+        unansweredQuestions: splitByLatest(trackItems(scored, analysis =>
+            (analysis.followUpCallPlanning?.unansweredQuestions || []).map(question => ({
+                text: question.question,
+                detail: question.whyIncomplete,
+                frameworkComponent: question.frameworkComponent
+            }))
+        ), latest),
+        stakeholders: buildStakeholderCoverage(scored)
+    };
+}
+
+function buildComponentCoverage(scored: CallAnalysis[]): ComponentCoverage[] {
+    const names = [...new Set(scored.flatMap(analysis => (analysis.components || []).map(component => component.name)))];
+
+    return names.map(name => {
+        const scores = scored.map(analysis =>
+            analysis.components?.find(component => component.name === name)?.overallScore ?? null
+        );
+        const numeric = scores.filter((score): score is number => score !== null);
+        const bestScore = numeric.length > 0 ? Math.max(...numeric) : null;
+        const firstCovered = scores.findIndex(score => score !== null && score >= COVERED_SCORE);
+
+        return {
+            name,
+            scores,
+            bestScore,
+            latestScore: [...scores].reverse().find(score => score !== null) ?? null,
+            firstCoveredCallId: firstCovered >= 0 ? scored[firstCovered].callId : undefined,
+            callsCovered: scores.filter(score => score !== null && score >= COVERED_SCORE).length,
+            status: coverageStatus(bestScore)
+        };
+    });
+}
+
+function coverageStatus(bestScore: number | null): ComponentCoverageStatus {
+    if (bestScore === null) return 'not_covered';
+    if (bestScore >= STRONG_SCORE) return 'strong';
+    if (bestScore >= COVERED_SCORE) return 'covered';
+    return 'weak';
+}
+
+function trackItems(
+    scored: CallAnalysis[],
+    itemsOf: (analysis: CallAnalysis) => Array<{ text: string; detail?: string; frameworkComponent?: string }>
+): TrackedItem[] {
+    const tracked: TrackedItem[] = [];
+
+    for (const analysis of scored) {
+        for (const item of itemsOf(analysis)) {
+            if (!item.text?.trim()) continue;
+
+            const existing = tracked.find(candidate => similarity(candidate.text, item.text) >= SAME_ITEM_SIMILARITY);
+            if (existing) {
+                // Keep the wording from the most recent call that raised it
+                if (existing.lastRaisedCallId !== analysis.callId) {
+                    existing.timesRaised++;
+                }
+                existing.text = item.text;
+                existing.detail = item.detail || existing.detail;
+                existing.frameworkComponent = item.frameworkComponent || existing.frameworkComponent;
+                existing.lastRaisedCallId = analysis.callId;
+            } else {
+                tracked.push({
+                    ...item,
+                    firstRaisedCallId: analysis.callId,
+                    lastRaisedCallId: analysis.callId,
+                    timesRaised: 1
+                });
+            }
+        }
+    }
+    return tracked;
+}
+
+function splitByLatest(items: TrackedItem[], latest: CallAnalysis | undefined) {
+    return {
+        open: items.filter(item => item.lastRaisedCallId === latest?.callId),
+        noLongerRaised: items.filter(item => item.lastRaisedCallId !== latest?.callId)
+    };
+}
+
+function buildStakeholderCoverage(scored: CallAnalysis[]): AccountRollup['stakeholders'] {
+    const seen = new Map<string, { name: string; firstSeenCallId: string; callsAttended: number }>();
+
+    const timeline = scored.map(analysis => {
+        // The rep is on every call; stakeholder coverage is about who joined from the customer side
+        const repName = analysis.rep?.name.toLowerCase();
+        const participants = (analysis.participants || []).filter(participant => personKey(participant) !== repName);
+        const newParticipants: string[] = [];
+
+        for (const participant of participants) {
+            const existing = seen.get(personKey(participant));
+            if (existing) {
+                existing.callsAttended++;
+            } else {
+                seen.set(personKey(participant), { name: participant, firstSeenCallId: analysis.callId, callsAttended: 1 });
+                newParticipants.push(participant);
+            }
+        }
+
+        return {
+            callId: analysis.callId,
+            callDate: analysis.callDate,
+            participants,
+            newParticipants,
+            missingStakeholders: analysis.followUpCallPlanning?.stakeholderMapping?.missingStakeholders || []
+        };
+    });
+
+    // Missing stakeholders are usually roles ("CFO", "IT security lead"), so match on the participant strings
+    const everyone = [...seen.values()].map(participant => participant.name.toLowerCase());
+    const latestMissing = timeline[timeline.length - 1]?.missingStakeholders || [];
+
+    return {
+        timeline,
+        participants: [...seen.values()],
+        stillMissing: latestMissing.filter(stakeholder =>
+            !everyone.some(participant => participant.includes(personKey(stakeholder)))
+        )
+    };
+}
+
+// "Jane Smith (Technical Lead)" -> "jane smith"
+function personKey(participant: string): string {
+    return participant.replace(/\(.*\)/, '').trim().toLowerCase();
+}
+
+function similarity(a: string, b: string): number {
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (tokensA.size === 0 || tokensB.size === 0) {
+        return 0;
+    }
+    const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+    return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function tokenize(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 2));
+}
+
+function callTime(analysis: CallAnalysis): number {
+    const time = new Date(analysis.callStartedAt || analysis.callDate).getTime();
+    return Number.isNaN(time) ? 0 : time;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
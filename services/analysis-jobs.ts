@@ -0,0 +1,313 @@
+// services/analysis-jobs.ts
+// Background jobs for framework analysis: analyze_calls_framework can take longer than the load balancer
+// allows for a single request, so callers submit a job, then poll or subscribe for progress, per-call
+// results and the final AggregateAnalysis. Jobs are persisted so a restart resumes unfinished work.
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+import type { AggregateAnalysis, CallAnalysis } from './framework-definitions';
+import { isScoredAnalysis } from './framework-scoring';
+import type { ModelOverrides } from './model-routing';
+import type { ToolExecutionContext } from './tool-execution';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJobArgs {
+    callIds: string[];
+    frameworks: string[];
+    includeParticipantRoles?: boolean;
+    forceRescore?: boolean;
+    consistencySamples?: number;
+    // Set by get_account_rollup: the completed job also reports the account rollup of its calls
+    rollupAccount?: string;
+}
+
+export interface AnalysisJob {
+    id: string;
+    status: AnalysisJobStatus;
+    args: AnalysisJobArgs;
+    // Routing overrides of the submitting request, applied when the job runs
+    modelOverrides?: ModelOverrides;
+    progress: { completed: number; total: number; message?: string };
+    // Per-call analyses finished so far; a resumed job skips these
+    partialResults: CallAnalysis[];
+    result?: AggregateAnalysis;
+    error?: string;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    updatedAt: string;
+}
+
+export type AnalysisJobRunner = (job: AnalysisJob, context: ToolExecutionContext) => Promise<AggregateAnalysis>;
+
+const TERMINAL_STATUSES: AnalysisJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isTerminalJobStatus(status: AnalysisJobStatus): boolean {
+    return TERMINAL_STATUSES.includes(status);
+}
+
+// === PERSISTENCE ===
+
+export interface AnalysisJobStore {
+    loadAll(): Promise<AnalysisJob[]>;
+    save(job: AnalysisJob): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+/**
+ * One JSON file per job in ANALYSIS_JOBS_DIR (default ./data/analysis-jobs). Writes go through a
+ * temporary file and a rename so a crash never leaves a half-written job behind.
+ */
+export class FileAnalysisJobStore implements AnalysisJobStore {
+    constructor(private directory: string = process.env.ANALYSIS_JOBS_DIR || path.join(process.cwd(), 'data', 'analysis-jobs')) {}
+
+    async loadAll(): Promise<AnalysisJob[]> {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const jobs: AnalysisJob[] = [];
+        for (const file of await fs.readdir(this.directory)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                jobs.push(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')));
+            } catch (error) {
+                console.warn(`⚠️ Skipping unreadable analysis job ${file}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+        return jobs;
+    }
+
+    async save(job: AnalysisJob): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const target = this.jobPath(job.id);
+        await fs.writeFile(`${target}.tmp`, JSON.stringify(job));
+        await fs.rename(`${target}.tmp`, target);
+    }
+
+    async remove(id: string): Promise<void> {
+        await fs.rm(this.jobPath(id), { force: true });
+    }
+
+    private jobPath(id: string): string {
+        return path.join(this.directory, `${id}.json`);
+    }
+}
+
+// === QUEUE ===
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Runs analysis jobs in the background, at most ANALYSIS_JOB_CONCURRENCY at a time.
+ * Emits 'update' with the job whenever its status, progress or partial results change.
+ */
+export class AnalysisJobQueue extends EventEmitter {
+    private jobs: Map<string, AnalysisJob> = new Map();
+    private controllers: Map<string, AbortController> = new Map();
+    private running = 0;
+    private ready: Promise<void>;
+    // Saves are chained per job so an older snapshot never overwrites a newer one
+    private writes: Map<string, Promise<void>> = new Map();
+    private concurrency: number;
+    private retentionMs: number;
+
+    constructor(
+        private runner: AnalysisJobRunner,
+        private store: AnalysisJobStore = new FileAnalysisJobStore(),
+        options: { concurrency?: number; retentionMs?: number } = {}
+    ) {
+        super();
+        this.setMaxListeners(0); // One listener per subscribed client
+        this.concurrency = options.concurrency ?? positiveIntFromEnv('ANALYSIS_JOB_CONCURRENCY', DEFAULT_CONCURRENCY);
+        this.retentionMs = options.retentionMs ?? positiveIntFromEnv('ANALYSIS_JOB_RETENTION_MS', DEFAULT_RETENTION_MS);
+        this.ready = this.restore();
+
+        const sweep = setInterval(() => this.pruneExpiredJobs(), Math.min(this.retentionMs, 60 * 60 * 1000));
+        sweep.unref();
+    }
+
+    /**
+     * Queue an analysis and return the job straight away
+     */
+    async submit(args: AnalysisJobArgs, modelOverrides?: ModelOverrides): Promise<AnalysisJob> {
+        await this.ready;
+
+        const now = new Date().toISOString();
+        const job: AnalysisJob = {
+            id: crypto.randomUUID(),
+            status: 'queued',
+            args,
+            modelOverrides,
+            progress: { completed: 0, total: args.callIds.length * args.frameworks.length },
+            partialResults: [],
+            createdAt: now,
+            updatedAt: now
+        };
+        this.jobs.set(job.id, job);
+        await this.persist(job);
+
+        console.log(`📋 Queued analysis job ${job.id}: ${args.callIds.length} call(s) × ${args.frameworks.join(', ')}`);
+        this.pump();
+        return job;
+    }
+
+    async get(id: string): Promise<AnalysisJob | undefined> {
+        await this.ready;
+        return this.jobs.get(id);
+    }
+
+    /**
+     * Cancel a queued or running job. Returns the job, or undefined when it does not exist.
+     */
+    async cancel(id: string): Promise<AnalysisJob | undefined> {
+        await this.ready;
+        const job = this.jobs.get(id);
+        if (!job || isTerminalJobStatus(job.status)) {
+            return job;
+        }
+
+        if (job.status === 'running') {
+            // run() records the cancellation once the analysis stops
+            this.controllers.get(id)?.abort('Job cancelled');
+        } else {
+            this.finish(job, 'cancelled', { error: 'Job cancelled' });
+        }
+        return job;
+    }
+
+    /**
+     * Listen for updates to one job. Returns a function that stops listening.
+     */
+    subscribe(id: string, listener: (job: AnalysisJob) => void): () => void {
+        const onUpdate = (job: AnalysisJob) => {
+            if (job.id === id) {
+                listener(job);
+            }
+        };
+        this.on('update', onUpdate);
+        return () => this.off('update', onUpdate);
+    }
+
+    get stats(): Record<AnalysisJobStatus, number> {
+        const stats: Record<AnalysisJobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+        for (const job of this.jobs.values()) {
+            stats[job.status]++;
+        }
+        return stats;
+    }
+
+    private async restore() {
+        try {
+            for (const job of await this.store.loadAll()) {
+                // Jobs interrupted by a restart go back to the queue and keep their finished per-call results;
+                // analyses that were not scored are dropped so the retry doesn't leave two results for the same call
+                if (job.status === 'running') {
+                    job.status = 'queued';
+                    job.partialResults = job.partialResults.filter(isScoredAnalysis);
+                    job.progress.message = `Resuming after restart with ${job.partialResults.length} analysis(es) already done`;
+                }
+                this.jobs.set(job.id, job);
+            }
+            console.log(`📋 Restored ${this.jobs.size} analysis job(s)`);
+        } catch (error) {
+            console.error('❌ Could not restore analysis jobs:', error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        this.pruneExpiredJobs();
+        this.pump();
+    }
+
+    private pump() {
+        for (const job of this.jobs.values()) {
+            if (this.running >= this.concurrency) {
+                return;
+            }
+            if (job.status === 'queued') {
+                void this.run(job);
+            }
+        }
+    }
+
+    private async run(job: AnalysisJob) {
+        this.running++;
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+
+        job.status = 'running';
+        job.startedAt = job.startedAt || new Date().toISOString();
+        this.update(job);
+        console.log(`▶️ Running analysis job ${job.id}`);
+
+        try {
+            const result = await this.runner(job, {
+                signal: controller.signal,
+                reportProgress: (completed, total, message) => {
+                    job.progress = { completed, total: total ?? job.progress.total, message };
+                    this.update(job);
+                },
+                reportPartialResult: partial => {
+                    job.partialResults.push(partial as CallAnalysis);
+                    this.update(job);
+                }
+            });
+            this.finish(job, 'completed', { result });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                this.finish(job, 'cancelled', { error: 'Job cancelled' });
+            } else {
+                console.error(`❌ Analysis job ${job.id} failed:`, error instanceof Error ? error.message : 'Unknown error');
+                this.finish(job, 'failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        } finally {
+            this.controllers.delete(job.id);
+            this.running--;
+            this.pump();
+        }
+    }
+
+    private finish(job: AnalysisJob, status: AnalysisJobStatus, outcome: { result?: AggregateAnalysis; error?: string }) {
+        job.status = status;
+        job.result = outcome.result;
+        job.error = outcome.error;
+        job.completedAt = new Date().toISOString();
+        this.update(job);
+        console.log(`⏹️ Analysis job ${job.id} ${status}`);
+    }
+
+    private update(job: AnalysisJob) {
+        job.updatedAt = new Date().toISOString();
+        void this.persist(job);
+        this.emit('update', job);
+    }
+
+    private persist(job: AnalysisJob): Promise<void> {
+        const snapshot: AnalysisJob = { ...job, progress: { ...job.progress }, partialResults: [...job.partialResults] };
+        const write = (this.writes.get(job.id) || Promise.resolve())
+            .then(() => this.store.save(snapshot))
+            .catch(error => {
+                console.error(`❌ Could not persist analysis job ${job.id}:`, error instanceof Error ? error.message : 'Unknown error');
+            });
+        this.writes.set(job.id, write);
+        return write;
+    }
+
+    private pruneExpiredJobs() {
+        const cutoff = Date.now() - this.retentionMs;
+        for (const job of this.jobs.values()) {
+            if (isTerminalJobStatus(job.status) && new Date(job.completedAt || job.updatedAt).getTime() < cutoff) {
+                this.jobs.delete(job.id);
+                this.writes.delete(job.id);
+                void this.store.remove(job.id).catch(error => {
+                    console.warn(`⚠️ Could not remove expired analysis job ${job.id}:`, error instanceof Error ? error.message : 'Unknown error');
+                });
+            }
+        }
+    }
+}
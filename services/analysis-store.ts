@@ -0,0 +1,135 @@
+// services/analysis-store.ts
+// Postgres storage for framework analyses (tables in lib/db/schema.ts). A completed CallAnalysis is saved
+// under its call, framework, framework version and prompt version, and served from here on repeat requests
+// instead of re-running the model. Disabled when DATABASE_URL is not set.
+import { and, eq } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { analysisCitations, callAnalyses, componentScores, subComponentScores } from '../lib/db/schema';
+import type { CallAnalysis, CustomerCitation } from './framework-definitions';
+import { RepTrends, RepTrendsOptions, getRepTrends } from './rep-trends';
+
+export interface AnalysisKey {
+    callId: string;
+    framework: string; // Framework id, e.g. 'great_demo'
+    frameworkVersion: string;
+    promptVersion: string;
+}
+
+export class AnalysisStore {
+    private db: ReturnType<typeof drizzle>;
+
+    constructor(databaseUrl: string) {
+        // Disable prefetch as it's not supported for "Transaction" pool mode
+        this.db = drizzle(postgres(databaseUrl, { prepare: false }));
+    }
+
+    /**
+     * The stored analysis for a key, or null when the call has not been analyzed with these versions
+     */
+    async get(key: AnalysisKey): Promise<CallAnalysis | null> {
+        const [record] = await this.db
+            .select({ analysis: callAnalyses.analysis })
+            .from(callAnalyses)
+            .where(and(
+                eq(callAnalyses.callId, key.callId),
+                eq(callAnalyses.framework, key.framework),
+                eq(callAnalyses.frameworkVersion, key.frameworkVersion),
+                eq(callAnalyses.promptVersion, key.promptVersion),
+                eq(callAnalyses.analysisStatus, 'completed')
+            ))
+            .limit(1);
+
+        return record ? record.analysis as CallAnalysis : null;
+    }
+
+    /**
+     * Save an analysis with its component scores, sub-component scores and citations,
+     * replacing anything stored under the same key (a forced re-score)
+     */
+    async save(key: AnalysisKey, analysis: CallAnalysis, model?: string): Promise<void> {
+        await this.db.transaction(async tx => {
+            await tx.delete(callAnalyses).where(and(
+                eq(callAnalyses.callId, key.callId),
+                eq(callAnalyses.framework, key.framework),
+                eq(callAnalyses.frameworkVersion, key.frameworkVersion),
+                eq(callAnalyses.promptVersion, key.promptVersion)
+            ));
+
+            const [record] = await tx.insert(callAnalyses).values({
+                ...key,
+                model,
+                callTitle: analysis.callTitle,
+                callUrl: analysis.callUrl,
+                callDate: analysis.callDate,
+                callStartedAt: analysis.callStartedAt ? new Date(analysis.callStartedAt) : null,
+                duration: analysis.duration,
+                participants: analysis.participants,
+                repUserId: analysis.rep?.userId,
+                repName: analysis.rep?.name,
+                repEmail: analysis.rep?.email,
+                overallScore: analysis.overallScore,
+                analysisStatus: analysis.analysisStatus,
+                analysis
+            }).returning({ id: callAnalyses.id });
+
+            for (const [componentIndex, component] of (analysis.components || []).entries()) {
+                const [componentRecord] = await tx.insert(componentScores).values({
+                    analysisId: record.id,
+                    name: component.name,
+                    position: componentIndex,
+                    overallScore: component.overallScore,
+                    keyFindings: component.keyFindings
+                }).returning({ id: componentScores.id });
+
+                for (const [subComponentIndex, subComponent] of (component.subComponents || []).entries()) {
+                    const [subComponentRecord] = await tx.insert(subComponentScores).values({
+                        componentScoreId: componentRecord.id,
+                        name: subComponent.name,
+                        position: subComponentIndex,
+                        score: subComponent.score,
+                        qualitativeAssessment: subComponent.qualitativeAssessment,
+                        improvementSuggestions: subComponent.improvementSuggestions
+                    }).returning({ id: subComponentScores.id });
+
+                    const citations = toCitationRows(subComponent.evidence || []);
+                    if (citations.length > 0) {
+                        await tx.insert(analysisCitations).values(citations.map((citation, position) => ({
+                            ...citation,
+                            subComponentScoreId: subComponentRecord.id,
+                            position
+                        })));
+                    }
+                }
+            }
+        });
+
+        console.log(`💾 Stored ${key.framework} analysis of call ${key.callId} (framework v${key.frameworkVersion}, prompt ${key.promptVersion})`);
+    }
+
+    async getRepTrends(options: RepTrendsOptions): Promise<RepTrends> {
+        return await getRepTrends(this.db, options);
+    }
+}
+
+// Evidence is CustomerCitation[] from current prompts, but older responses use plain strings
+function toCitationRows(evidence: Array<string | CustomerCitation>) {
+    return evidence
+        .map(item => typeof item === 'string'
+            ? { quote: item }
+            : { speaker: item.speaker, timestamp: item.timestamp, quote: item.quote, context: item.context, url: item.url })
+        .filter(citation => typeof citation.quote === 'string' && citation.quote.trim().length > 0);
+}
+
+let sharedStore: AnalysisStore | null | undefined;
+
+/**
+ * The process-wide store, or null when DATABASE_URL is not configured
+ */
+export function getAnalysisStore(): AnalysisStore | null {
+    if (sharedStore === undefined) {
+        sharedStore = process.env.DATABASE_URL ? new AnalysisStore(process.env.DATABASE_URL) : null;
+        console.log(sharedStore ? '💾 Framework analyses are stored in Postgres' : '⚠️ DATABASE_URL not set - framework analyses will not be stored');
+    }
+    return sharedStore;
+}
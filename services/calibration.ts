@@ -0,0 +1,368 @@
+// services/calibration.ts
+// Calibration against human graders. The gold set is a directory of calls per framework
+// (calibration/<framework>/<id>.json), each with its transcript and the sub-component scores a grader gave it.
+// A calibration run analyzes every gold call with the current prompts, model and framework version and reports
+// how far the analyzer's scores are from the graders': mean absolute error, the share within one point and the
+// bias (positive when the analyzer scores higher), per sub-component, per component and overall.
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import type { CallAnalysis, ComponentAnalysis, FrameworkDefinition } from './framework-definitions';
+import type { FrameworkAnalyzer } from './framework-analyzer';
+import { getFrameworkRegistry } from './framework-registry';
+import { FRAMEWORK_ID_PATTERN } from './framework-schema';
+import { scoreFrameworkAnalysis } from './framework-scoring';
+import { getLLMProvider } from './llm-provider';
+import { getModelSettings } from './model-routing';
+import { ToolExecutionContext, throwIfCancelled } from './tool-execution';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const GoldCallSchema = z.strictObject({
+    id: z.string().regex(FRAMEWORK_ID_PATTERN, 'must be lowercase letters, digits, "_" or "-"'),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    gradedBy: z.string().min(1),
+    gradedAt: z.string().min(1),
+    call: z.strictObject({
+        date: z.string().optional(),
+        duration: z.string().optional(),
+        participants: z.array(z.string()).default([]),
+        brief: z.string().optional()
+    }).default({ participants: [] }),
+    transcript: z.array(z.object({
+        speaker: z.string().min(1),
+        text: z.string().min(1),
+        startTime: z.number().min(0), // ms from the start of the call, as in Gong transcripts
+        endTime: z.number().min(0).optional(),
+        topic: z.string().optional()
+    })).min(1),
+    labels: z.array(z.strictObject({
+        component: z.string().min(1),
+        subComponent: z.string().min(1),
+        score: z.number().min(1).max(10),
+        rationale: z.string().optional()
+    })).min(1)
+});
+
+export type GoldCall = z.infer<typeof GoldCallSchema> & { framework: string };
+
+export interface GoldSet {
+    calls: GoldCall[];
+    loadErrors: Array<{ file: string; error: string }>;
+}
+
+export interface AgreementMetrics {
+    pairs: number; // Gold labels the analyzer also scored
+    unscored: number; // Gold labels the analyzer left without a score
+    mae: number | null;
+    withinOne: number | null; // Share of pairs at most one point apart
+    bias: number | null; // Mean of analyzer minus gold score
+}
+
+export interface ComponentAgreement extends AgreementMetrics {
+    component: string;
+    subComponents: Array<AgreementMetrics & { subComponent: string }>;
+}
+
+export interface CalibrationCallResult {
+    id: string;
+    title: string;
+    status: 'scored' | 'error';
+    error?: string;
+    overall: { gold: number | null; predicted: number | null };
+    scores: Array<{ component: string; subComponent: string; gold: number; predicted: number | null; error: number | null }>;
+}
+
+export interface CalibrationReport {
+    framework: string;
+    frameworkVersion: string;
+    promptVersion: string;
+    provider: string;
+    model: string;
+    consistencySamples: number;
+    ranAt: string;
+    calls: CalibrationCallResult[];
+    summary: AgreementMetrics; // Every sub-component score of every gold call
+    overall: AgreementMetrics; // Weighted overall call scores
+    components: ComponentAgreement[];
+    loadErrors: GoldSet['loadErrors'];
+}
+
+export interface CalibrationOptions {
+    framework?: string; // Every framework with gold calls when omitted
+    goldCallIds?: string[];
+    consistencySamples?: number;
+}
+
+export function getCalibrationDirectory(): string {
+    return process.env.CALIBRATION_DIR || path.join(__dirname, 'calibration');
+}
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Load the gold calls of one framework, or of every framework with a calibration directory. Files that do not
+ * validate, or label sub-components the framework does not define, are reported instead of loaded.
+ */
+export async function loadGoldSet(framework?: string, directory: string = getCalibrationDirectory()): Promise<GoldSet> {
+    const registry = getFrameworkRegistry();
+    const goldSet: GoldSet = { calls: [], loadErrors: [] };
+
+    let frameworks: string[];
+    try {
+        frameworks = framework
+            ? [framework]
+            : (await fs.readdir(directory, { withFileTypes: true })).filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+    } catch {
+        return goldSet;
+    }
+
+    for (const frameworkId of frameworks) {
+        const definition = registry.get(frameworkId);
+        let files: string[];
+        try {
+            files = (await fs.readdir(path.join(directory, frameworkId))).filter(file => file.endsWith('.json')).sort();
+        } catch {
+            continue;
+        }
+        if (!definition) {
+            goldSet.loadErrors.push({ file: frameworkId, error: `Unknown framework: ${frameworkId}` });
+            continue;
+        }
+
+        for (const file of files) {
+            const location = `${frameworkId}/${file}`;
+            try {
+                const result = GoldCallSchema.safeParse(JSON.parse(await fs.readFile(path.join(directory, frameworkId, file), 'utf8')));
+                if (!result.success) {
+                    throw new Error(result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+                }
+                if (`${result.data.id}.json` !== file) {
+                    throw new Error(`id "${result.data.id}" must match the file name`);
+                }
+                const unknown = result.data.labels.filter(label => !findSubComponent(definition, label.component, label.subComponent));
+                if (unknown.length > 0) {
+                    throw new Error(`Labels for sub-components ${frameworkId} does not define: ${unknown.map(label => `${label.component} / ${label.subComponent}`).join(', ')}`);
+                }
+                goldSet.calls.push({ ...result.data, framework: frameworkId });
+            } catch (error) {
+                goldSet.loadErrors.push({ file: location, error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+    }
+
+    for (const loadError of goldSet.loadErrors) {
+        console.warn(`⚠️ Skipping gold call ${loadError.file}: ${loadError.error}`);
+    }
+    return goldSet;
+}
+
+function findSubComponent(definition: FrameworkDefinition, component: string, subComponent: string) {
+    return definition.components
+        .find(candidate => normalizeName(candidate.name) === normalizeName(component))
+        ?.subComponents.find(candidate => normalizeName(candidate.name) === normalizeName(subComponent));
+}
+
+// Call details in the shape the analyzer gets from Gong
+function toCallDetails(goldCall: GoldCall): any {
+    const last = goldCall.transcript[goldCall.transcript.length - 1];
+    return {
+        callId: `calibration-${goldCall.id}`,
+        title: goldCall.title,
+        callUrl: '',
+        date: goldCall.call.date || 'Unknown date',
+        duration: goldCall.call.duration || `${Math.round((last.endTime ?? last.startTime) / 60000)}m`,
+        participants: goldCall.call.participants.length > 0
+            ? goldCall.call.participants
+            : [...new Set(goldCall.transcript.map(entry => entry.speaker))],
+        brief: goldCall.call.brief,
+        hasTranscript: true,
+        transcript: goldCall.transcript,
+        transcriptSummary: {
+            totalSpeakers: new Set(goldCall.transcript.map(entry => entry.speaker)).size,
+            totalDuration: Math.round((last.endTime ?? last.startTime) / 1000),
+            keyTopics: [...new Set(goldCall.transcript.map(entry => entry.topic).filter(Boolean))]
+        }
+    };
+}
+
+function agreement(pairs: Array<{ gold: number; predicted: number | null }>): AgreementMetrics {
+    const scored = pairs.filter((pair): pair is { gold: number; predicted: number } => pair.predicted !== null);
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    const mae = mean(scored.map(pair => Math.abs(pair.predicted - pair.gold)));
+    const bias = mean(scored.map(pair => pair.predicted - pair.gold));
+
+    return {
+        pairs: scored.length,
+        unscored: pairs.length - scored.length,
+        mae: mae === null ? null : round(mae, 2),
+        withinOne: scored.length > 0 ? round(scored.filter(pair => Math.abs(pair.predicted - pair.gold) <= 1).length / scored.length, 3) : null,
+        bias: bias === null ? null : round(bias, 2)
+    };
+}
+
+// Overall score the gold labels add up to with the framework's weights
+function goldOverallScore(definition: FrameworkDefinition, goldCall: GoldCall): number | null {
+    const components: ComponentAnalysis[] = definition.components.map(component => ({
+        name: component.name,
+        overallScore: null,
+        keyFindings: [],
+        subComponents: goldCall.labels
+            .filter(label => normalizeName(label.component) === normalizeName(component.name))
+            .map(label => ({ name: label.subComponent, score: label.score, evidence: [], qualitativeAssessment: '', improvementSuggestions: [] }))
+    }));
+    return scoreFrameworkAnalysis(definition, components).overallScore;
+}
+
+function predictedScore(analysis: CallAnalysis, component: string, subComponent: string): number | null {
+    const score = analysis.components
+        .find(candidate => normalizeName(candidate.name) === normalizeName(component))
+        ?.subComponents.find(candidate => normalizeName(candidate.name) === normalizeName(subComponent))
+        ?.score;
+    return typeof score === 'number' ? score : null;
+}
+
+/**
+ * Analyze the gold calls and compare the analyzer's scores with the graders'. One report per framework.
+ * A gold call that fails to analyze is reported and left out of the metrics.
+ */
+export async function runCalibration(
+    analyzer: FrameworkAnalyzer,
+    options: CalibrationOptions = {},
+    context: ToolExecutionContext = {},
+    directory: string = getCalibrationDirectory()
+): Promise<CalibrationReport[]> {
+    const { signal, reportProgress } = context;
+    const goldSet = await loadGoldSet(options.framework, directory);
+    const goldCalls = goldSet.calls.filter(goldCall => !options.goldCallIds || options.goldCallIds.includes(goldCall.id));
+    const frameworks = options.framework ? [options.framework] : [...new Set(goldCalls.map(goldCall => goldCall.framework))];
+    const promptVersion = await analyzer.getPromptVersion();
+    const provider = getLLMProvider();
+
+    const reports: CalibrationReport[] = [];
+    let completed = 0;
+    reportProgress?.(0, goldCalls.length, `Calibrating against ${goldCalls.length} gold call(s)`);
+
+    for (const framework of frameworks) {
+        const definition = getFrameworkRegistry().get(framework);
+        if (!definition) {
+            throw new Error(`Unknown framework: ${framework}`);
+        }
+
+        const calls: CalibrationCallResult[] = [];
+        for (const goldCall of goldCalls.filter(goldCall => goldCall.framework === framework)) {
+            throwIfCancelled(signal);
+            console.log(`🎯 Calibrating ${framework} on gold call ${goldCall.id}`);
+
+            let analysis: CallAnalysis | null = null;
+            let error: string | undefined;
+            try {
+                analysis = await analyzer.analyzeProvidedCall(toCallDetails(goldCall), framework, { consistencySamples: options.consistencySamples, signal });
+                // A model reply that could not be parsed comes back as an analysis without scores
+                if (analysis.overallScore === null) {
+                    analysis = null;
+                    error = 'The analysis returned no sub-component scores';
+                }
+            } catch (analysisError) {
+                throwIfCancelled(signal);
+                error = analysisError instanceof Error ? analysisError.message : 'Unknown error';
+            }
+            if (error) {
+                console.warn(`⚠️ Could not analyze gold call ${goldCall.id}:`, error);
+            }
+
+            calls.push({
+                id: goldCall.id,
+                title: goldCall.title,
+                status: analysis ? 'scored' : 'error',
+                ...(error ? { error } : {}),
+                overall: { gold: goldOverallScore(definition, goldCall), predicted: analysis?.overallScore ?? null },
+                scores: goldCall.labels.map(label => {
+                    const predicted = analysis ? predictedScore(analysis, label.component, label.subComponent) : null;
+                    return {
+                        component: label.component,
+                        subComponent: label.subComponent,
+                        gold: label.score,
+                        predicted,
+                        error: predicted === null ? null : round(predicted - label.score, 1)
+                    };
+                })
+            });
+            reportProgress?.(++completed, goldCalls.length, `Calibrated ${framework} on ${goldCall.id}`);
+        }
+
+        // Failed analyses say nothing about agreement
+        const scored = calls.filter(call => call.status === 'scored');
+        const scores = scored.flatMap(call => call.scores);
+        const matches = (name: string, candidate: string) => normalizeName(name) === normalizeName(candidate);
+
+        reports.push({
+            framework,
+            frameworkVersion: definition.version || 'unversioned',
+            promptVersion,
+            provider: provider.name,
+            model: getModelSettings('framework_analysis', provider).model,
+            consistencySamples: options.consistencySamples ?? 1,
+            ranAt: new Date().toISOString(),
+            calls,
+            summary: agreement(scores),
+            overall: agreement(scored
+                .filter(call => call.overall.gold !== null)
+                .map(call => ({ gold: call.overall.gold!, predicted: call.overall.predicted }))),
+            components: definition.components
+                .filter(component => scores.some(score => matches(score.component, component.name)))
+                .map(component => ({
+                    component: component.name,
+                    ...agreement(scores.filter(score => matches(score.component, component.name))),
+                    subComponents: component.subComponents
+                        .filter(sub => scores.some(score => matches(score.component, component.name) && matches(score.subComponent, sub.name)))
+                        .map(sub => ({
+                            subComponent: sub.name,
+                            ...agreement(scores.filter(score => matches(score.component, component.name) && matches(score.subComponent, sub.name)))
+                        }))
+                })),
+            loadErrors: goldSet.loadErrors.filter(loadError => loadError.file.startsWith(`${framework}/`) || loadError.file === framework)
+        });
+    }
+
+    return reports;
+}
+
+/**
+ * Plain-text table of a report, for the calibration CLI
+ */
+export function formatCalibrationReport(report: CalibrationReport): string {
+    const value = (metric: number | null, percent = false) => metric === null ? '-' : percent ? `${Math.round(metric * 100)}%` : metric.toFixed(2);
+    const signed = (metric: number | null) => metric === null ? '-' : `${metric > 0 ? '+' : ''}${metric.toFixed(2)}`;
+    const row = (label: string, metrics: AgreementMetrics) =>
+        `${label.padEnd(48)} ${String(metrics.pairs).padStart(5)} ${value(metrics.mae).padStart(6)} ${value(metrics.withinOne, true).padStart(8)} ${signed(metrics.bias).padStart(6)}${metrics.unscored > 0 ? `  (${metrics.unscored} unscored)` : ''}`;
+
+    const lines = [
+        `${report.framework} ${report.frameworkVersion} - prompts ${report.promptVersion} - ${report.provider}/${report.model}${report.consistencySamples > 1 ? ` - ${report.consistencySamples} samples` : ''}`,
+        '',
+        `${'Gold call'.padEnd(48)} ${'Gold'.padStart(5)} ${'Scored'.padStart(6)}`,
+        ...report.calls.map(call => call.status === 'error'
+            ? `${call.id.padEnd(48)} ${String(call.overall.gold ?? '-').padStart(5)}  error: ${call.error}`
+            : `${call.id.padEnd(48)} ${String(call.overall.gold ?? '-').padStart(5)} ${String(call.overall.predicted ?? '-').padStart(6)}`),
+        '',
+        `${''.padEnd(48)} ${'Pairs'.padStart(5)} ${'MAE'.padStart(6)} ${'Within 1'.padStart(8)} ${'Bias'.padStart(6)}`,
+        ...report.components.flatMap(component => [
+            row(component.component, component),
+            ...component.subComponents.map(sub => row(`  ${sub.subComponent}`, sub))
+        ]),
+        row('All sub-components', report.summary),
+        row('Overall call score', report.overall),
+        ...report.loadErrors.map(loadError => `⚠️ Skipped ${loadError.file}: ${loadError.error}`)
+    ];
+    return lines.join('\n');
+}
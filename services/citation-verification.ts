@@ -0,0 +1,216 @@
+// services/citation-verification.ts
+// Checks every CustomerCitation of an analysis against the call transcript. Each quote is fuzzy-matched
+// against runs of consecutive transcript lines; when it is found, the speaker and timestamp are taken from the
+// matched lines if the model got them wrong. Quotes that cannot be found are treated as fabricated: they are
+// removed from evidence lists (or only flagged, with CITATION_VERIFICATION=flag).
+import type { CallAnalysis, CitationAccuracy, CitationVerification, CustomerCitation } from './framework-definitions';
+import { formatTranscriptTime } from './transcript-chunks';
+
+// Share of the quote's word pairs that must appear in the matched lines
+const MATCH_THRESHOLD = 0.6;
+// Quotes may run over a few consecutive transcript lines
+const MAX_MATCHED_LINES = 3;
+// A cited time this close to the matched lines still counts as right
+const TIMESTAMP_TOLERANCE_MS = 10 * 1000;
+// Candidates scoring within this of the best match are told apart by distance from the cited time
+const SCORE_TIE = 0.05;
+
+export type CitationVerificationMode = 'drop' | 'flag';
+
+interface IndexedLine {
+    entry: any;
+    pairs: Set<string>;
+    words: Set<string>;
+}
+
+interface TranscriptMatch {
+    score: number;
+    lines: any[];
+}
+
+export function getCitationVerificationMode(): CitationVerificationMode {
+    return process.env.CITATION_VERIFICATION === 'flag' ? 'flag' : 'drop';
+}
+
+function words(text: string): string[] {
+    return (text || '').toLowerCase().replace(/[’']/g, '').split(/[^a-z0-9$%]+/).filter(Boolean);
+}
+
+function pairs(tokens: string[]): string[] {
+    return tokens.length < 2 ? tokens : tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`);
+}
+
+// Same display rule the prompts use: titles removed, first name only
+function displaySpeaker(speaker: string): string {
+    if (!speaker || speaker === 'Unknown' || speaker.startsWith('Speaker (')) {
+        return 'Unknown Speaker';
+    }
+    return speaker.replace(/\s*\([^)]*\)/, '').trim().split(/\s+/)[0];
+}
+
+function speakerMatches(cited: string, speaker: string): boolean {
+    const citedName = (cited || '').trim().toLowerCase();
+    const fullName = (speaker || '').replace(/\s*\([^)]*\)/, '').trim().toLowerCase();
+    return citedName === displaySpeaker(speaker).toLowerCase() || (citedName.length > 0 && fullName.startsWith(citedName));
+}
+
+function parseCitedTime(timestamp?: string): number | null {
+    const match = timestamp?.match(/(\d+):(\d{2})/);
+    return match ? (parseInt(match[1], 10) * 60 + parseInt(match[2], 10)) * 1000 : null;
+}
+
+function isTimed(entry: any): boolean {
+    return typeof entry.startTime === 'number' && Number.isFinite(entry.startTime);
+}
+
+/**
+ * Best run of up to MAX_MATCHED_LINES consecutive lines for a quote. Among near-equal matches the one
+ * closest to the cited time wins, so a phrase repeated during the call resolves to the moment that was cited.
+ */
+function findQuote(quote: string, citedTimeMs: number | null, lines: IndexedLine[]): TranscriptMatch | null {
+    const quoteWords = words(quote);
+    const quotePairs = pairs(quoteWords);
+    if (quotePairs.length === 0) {
+        return null;
+    }
+
+    const candidates: Array<TranscriptMatch & { distance: number }> = [];
+    for (let start = 0; start < lines.length; start++) {
+        // A run has to start on a line that shares a word with the quote
+        if (!quoteWords.some(word => lines[start].words.has(word))) {
+            continue;
+        }
+
+        for (let end = start; end < Math.min(lines.length, start + MAX_MATCHED_LINES); end++) {
+            const run = lines.slice(start, end + 1);
+            // A one-word quote is its own "pair"
+            const score = quotePairs.filter(pair => run.some(line => line.pairs.has(pair) || line.words.has(pair))).length / quotePairs.length;
+            if (score >= MATCH_THRESHOLD) {
+                const distance = citedTimeMs !== null && isTimed(run[0].entry) ? Math.abs(run[0].entry.startTime - citedTimeMs) : 0;
+                candidates.push({ score, lines: run.map(line => line.entry), distance });
+            }
+            if (score === 1) {
+                break;
+            }
+        }
+    }
+
+    const bestScore = Math.max(...candidates.map(candidate => candidate.score));
+    const [best] = candidates
+        .filter(candidate => candidate.score >= bestScore - SCORE_TIE)
+        .sort((a, b) => a.distance - b.distance || a.lines.length - b.lines.length || b.score - a.score);
+    return best ? { score: best.score, lines: best.lines } : null;
+}
+
+function verifyCitation(citation: CustomerCitation, lines: IndexedLine[]): CitationVerification {
+    const citedTimeMs = parseCitedTime(citation.timestamp);
+    const match = findQuote(citation.quote, citedTimeMs, lines);
+    if (!match) {
+        return { status: 'unverified', matchScore: 0 };
+    }
+
+    const corrections: string[] = [];
+    const first = match.lines[0];
+    const last = match.lines[match.lines.length - 1];
+
+    if (!match.lines.some(entry => speakerMatches(citation.speaker, entry.speaker))) {
+        const speaker = displaySpeaker(first.speaker);
+        corrections.push(`speaker "${citation.speaker}" -> "${speaker}"`);
+        citation.speaker = speaker;
+    }
+
+    if (isTimed(first)) {
+        const startMs = first.startTime;
+        const endMs = Math.max(last.endTime ?? last.startTime, last.startTime);
+        const withinMatch = citedTimeMs !== null && citedTimeMs >= startMs - TIMESTAMP_TOLERANCE_MS && citedTimeMs <= endMs + TIMESTAMP_TOLERANCE_MS;
+        if (!withinMatch) {
+            const timestamp = `${formatTranscriptTime(startMs)} - ${formatTranscriptTime(endMs)}`;
+            corrections.push(`timestamp "${citation.timestamp || 'none'}" -> "${timestamp}"`);
+            citation.timestamp = timestamp;
+            // Any Gong link was built from the wrong time
+            delete citation.url;
+        }
+    }
+
+    return {
+        status: corrections.length > 0 ? 'corrected' : 'verified',
+        matchScore: Math.round(match.score * 100) / 100,
+        ...(corrections.length > 0 ? { corrections } : {})
+    };
+}
+
+/**
+ * Verify the citations of an analysis in place against the call transcript and return the accuracy.
+ * Unverified citations are dropped from evidence lists in 'drop' mode; single citations (an unanswered
+ * question's original response, an opportunity's customer quote) are only flagged. Returns null without a
+ * transcript to check against.
+ */
+export function verifyAnalysisCitations(
+    analysis: Partial<CallAnalysis>,
+    transcript: any[],
+    mode: CitationVerificationMode = getCitationVerificationMode()
+): CitationAccuracy | null {
+    if (!Array.isArray(transcript) || transcript.length === 0) {
+        return null;
+    }
+
+    const lines: IndexedLine[] = transcript.map(entry => {
+        const tokens = words(entry.text || '');
+        return { entry, pairs: new Set(pairs(tokens)), words: new Set(tokens) };
+    });
+    const counts = { checked: 0, verified: 0, corrected: 0, unverified: 0, dropped: 0 };
+
+    const check = (citation: any): boolean => {
+        // Notes the analyzer adds (plain strings) and citations without a quote are not checked
+        if (typeof citation !== 'object' || citation === null || typeof citation.quote !== 'string' || !citation.quote.trim()) {
+            return true;
+        }
+        counts.checked++;
+        citation.verification = verifyCitation(citation, lines);
+        counts[citation.verification.status as 'verified' | 'corrected' | 'unverified']++;
+        return citation.verification.status !== 'unverified';
+    };
+    const checkList = <T>(citations: T[] | undefined): T[] | undefined => {
+        if (!Array.isArray(citations)) {
+            return citations;
+        }
+        const kept = citations.filter(citation => check(citation) || mode === 'flag');
+        counts.dropped += citations.length - kept.length;
+        return kept;
+    };
+
+    for (const component of analysis.components || []) {
+        for (const subComponent of component.subComponents || []) {
+            subComponent.evidence = checkList(subComponent.evidence) as any[];
+        }
+    }
+
+    const planning = analysis.followUpCallPlanning;
+    if (planning) {
+        for (const area of planning.deeperInquiryAreas || []) {
+            area.supportingEvidence = checkList(area.supportingEvidence)!;
+        }
+        for (const question of planning.unansweredQuestions || []) {
+            check(question.originalCustomerResponse);
+        }
+        for (const gap of planning.discoveryGaps || []) {
+            gap.indicatorQuotes = checkList(gap.indicatorQuotes)!;
+        }
+        if (planning.stakeholderMapping) {
+            planning.stakeholderMapping.evidenceOfNeed = checkList(planning.stakeholderMapping.evidenceOfNeed)!;
+        }
+        for (const objective of planning.nextCallObjectives || []) {
+            objective.customerEvidence = checkList(objective.customerEvidence)!;
+        }
+        for (const indicator of planning.opportunityIndicators || []) {
+            check(indicator.customerQuote);
+        }
+    }
+
+    const share = (count: number) => counts.checked > 0 ? Math.round((count / counts.checked) * 1000) / 1000 : null;
+    return {
+        ...counts,
+        quoteAccuracy: share(counts.verified + counts.corrected),
+        accuracy: share(counts.verified)
+    };
+}
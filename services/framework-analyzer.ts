@@ -13,12 +13,33 @@ import {
     ComponentAnalysis,
     SubComponentScore,
     getFrameworkDefinition,
+    getValidFrameworks,
     validateFrameworkName,
     ValidFramework,
-    FollowUpCallPlanning
+    FollowUpCallPlanning,
+    ScoringConsistency
 
 } from './framework-definitions';
+import { LLMProvider } from './llm-provider';
+import { getModelSettings, taskRequest } from './model-routing';
+import { AnalysisKey, AnalysisStore } from './analysis-store';
+import { ToolExecutionContext, throwIfCancelled } from './tool-execution';
 import { PromptManager } from './prompt-manager';
+import { getFrameworkRegistry } from './framework-registry';
+import { isScoredAnalysis, scoreFrameworkAnalysis } from './framework-scoring';
+import { verifyAnalysisCitations } from './citation-verification';
+import { MAX_CONSISTENCY_SAMPLES, aggregateScoringSamples } from './score-consistency';
+import {
+    MergedEvidence,
+    TranscriptChunk,
+    WindowEvidence,
+    estimateTranscriptTokens,
+    getTranscriptChunkingSettings,
+    mergeWindowEvidence,
+    parseWindowEvidence,
+    shouldChunkTranscript,
+    splitTranscript
+} from './transcript-chunks';
 
 dotenv.config({ path: '.env.local' });
 
@@ -54,18 +75,24 @@ export class FrameworkAnalysisValidator {
     }
 
     static validateFrameworks(frameworks: string[]): void {
-        const validFrameworks = ["command_of_the_message", "great_demo", "demo2win", "miro_value_selling"];
         if (!Array.isArray(frameworks) || frameworks.length === 0) {
             throw new Error("frameworks must be a non-empty array");
         }
 
+        const validFrameworks = getValidFrameworks();
         frameworks.forEach(framework => {
-            if (!validFrameworks.includes(framework)) {
+            if (!validateFrameworkName(framework)) {
                 throw new Error(`Invalid framework: ${framework}. Must be one of: ${validFrameworks.join(", ")}`);
             }
         });
     }
 
+    static validateConsistencySamples(samples: unknown): void {
+        if (samples !== undefined && (!Number.isInteger(samples) || (samples as number) < 1 || (samples as number) > MAX_CONSISTENCY_SAMPLES)) {
+            throw new Error(`consistencySamples must be a whole number between 1 and ${MAX_CONSISTENCY_SAMPLES}`);
+        }
+    }
+
     static validateScore(score: number, fieldName: string): void {
         if (typeof score !== 'number' || score < 1 || score > 10) {
             throw new Error(`${fieldName} must be a number between 1 and 10`);
@@ -74,17 +101,22 @@ export class FrameworkAnalysisValidator {
 }
 
 export class FrameworkAnalyzer {
-    private anthropicClient: any;
+    private llmProvider: LLMProvider;
     private gongService: any;
     private frameworksPath: string;
     private resourceCache: Map<string, FrameworkResources> = new Map(); 
     private promptManager: PromptManager;
+    private analysisStore: AnalysisStore | null;
 
-    constructor(anthropicClient: any, gongService: any, frameworksPath?: string) {
-        this.anthropicClient = anthropicClient;
+    constructor(llmProvider: LLMProvider, gongService: any, frameworksPath?: string, analysisStore: AnalysisStore | null = null) {
+        this.llmProvider = llmProvider;
         this.gongService = gongService;
         this.frameworksPath = frameworksPath || path.join(__dirname, 'frameworks'); 
         this.promptManager = new PromptManager();
+        this.analysisStore = analysisStore;
+
+        // Edited methodology, examples or definitions apply to the next analysis
+        getFrameworkRegistry().on('change', () => this.resourceCache.clear());
     }
 
     // NEW: Load framework resources from files
@@ -164,46 +196,87 @@ export class FrameworkAnalyzer {
         frameworks: string[];
         includeParticipantRoles?: boolean;
         includeCallSequence?: boolean;
-    }): Promise<AggregateAnalysis> {
+        // Analyses finished by an earlier, interrupted run - those call/framework pairs are not re-analyzed
+        resumeFrom?: CallAnalysis[];
+        // Re-run the model even when a stored analysis exists for the same versions
+        forceRescore?: boolean;
+        // Consistency mode: score each call this many times and keep the median sub-component scores
+        consistencySamples?: number;
+    }, context: ToolExecutionContext = {}): Promise<AggregateAnalysis> {
         console.log('🔍 Starting framework analysis for calls:', args.callIds);
 
-        const { callIds, frameworks, includeParticipantRoles = true, includeCallSequence = false } = args;
+        const { callIds, frameworks, includeParticipantRoles = true, includeCallSequence = false, resumeFrom = [], forceRescore = false, consistencySamples = 1 } = args;
+        const { signal, reportProgress, reportPartialResult } = context;
 
         // Validate inputs
         FrameworkAnalysisValidator.validateCallIds(callIds);
         FrameworkAnalysisValidator.validateFrameworks(frameworks);
+        FrameworkAnalysisValidator.validateConsistencySamples(args.consistencySamples);
 
         console.log(`📊 Analyzing ${callIds.length} calls against ${frameworks.length} frameworks`);
 
         // Fetch call details for all calls
         const callAnalyses: CallAnalysis[] = [];
 
-        for (const callId of callIds) {
-            try {
-                console.log(`📞 Processing call: ${callId}`);
+        // One step per call per framework
+        const totalSteps = callIds.length * frameworks.length;
+        let completedSteps = 0;
+        reportProgress?.(0, totalSteps, `Analyzing ${callIds.length} call(s) against ${frameworks.join(', ')}`);
+
+        // Completed analyses name their framework by display name; stored ones are keyed by framework version
+        const frameworkInfo = new Map<string, { label: string; version: string }>();
+        if (resumeFrom.length > 0 || this.analysisStore) {
+            for (const framework of frameworks) {
+                const definition = await getFrameworkDefinition(framework as ValidFramework);
+                frameworkInfo.set(framework, { label: definition.displayName || definition.name, version: definition.version || 'unversioned' });
+            }
+        }
+        const promptVersion = this.analysisStore ? await this.getPromptVersion() : '';
+        const storageKey = (callId: string, framework: string): AnalysisKey => ({
+            callId,
+            framework,
+            frameworkVersion: frameworkInfo.get(framework)!.version,
+            promptVersion
+        });
 
-                // UPDATED: Get BOTH call details AND transcript data
-                const [callDetails, transcriptData] = await Promise.all([
-                    this.gongService.getGongCallDetails({ callId }),
-                    this.gongService.getGongCallTranscript(callId)
-                ]);
+        // Analyses that were not scored are retried, never reused
+        const findResumed = (callId: string, framework: string) => resumeFrom.find(analysis =>
+            analysis.callId === callId &&
+            isScoredAnalysis(analysis) &&
+            (analysis.framework === framework || analysis.framework === frameworkInfo.get(framework)?.label)
+        );
 
-                console.log(`✅ Got call details for ${callId}:`, callDetails.callId);
-                console.log(`✅ Got transcript data for ${callId}:`, {
-                    hasTranscript: transcriptData.hasTranscript,
-                    transcriptLength: transcriptData.transcript?.length || 0
-                });
+        for (const [callIndex, callId] of callIds.entries()) {
+            throwIfCancelled(signal);
 
-                // UPDATED: Merge call details with transcript data
-                const enrichedCallDetails = {
-                    ...callDetails,
-                    transcript: transcriptData.transcript || [],
-                    hasTranscript: transcriptData.hasTranscript || false,
-                    // Generate transcript summary if transcript is available
-                    transcriptSummary: transcriptData.hasTranscript && transcriptData.transcript?.length > 0
-                        ? this.gongService.generateTranscriptSummary(transcriptData.transcript)
-                        : null
-                };
+            let pendingFrameworks = frameworks.filter(framework => !findResumed(callId, framework));
+            for (const framework of frameworks.filter(framework => findResumed(callId, framework))) {
+                callAnalyses.push(findResumed(callId, framework)!);
+                reportProgress?.(++completedSteps, totalSteps, `Reused earlier ${framework} analysis of call ${callIndex + 1}/${callIds.length} (${callId})`);
+            }
+
+            if (this.analysisStore && !forceRescore) {
+                for (const framework of pendingFrameworks) {
+                    const stored = await this.loadStoredAnalysis(storageKey(callId, framework));
+                    // A stored analysis from fewer samples than requested is scored again
+                    if (stored && (stored.consistency?.requestedSamples ?? 1) >= consistencySamples) {
+                        callAnalyses.push(stored);
+                        reportPartialResult?.(stored);
+                        pendingFrameworks = pendingFrameworks.filter(pending => pending !== framework);
+                        reportProgress?.(++completedSteps, totalSteps, `Loaded stored ${framework} analysis of call ${callIndex + 1}/${callIds.length} (${callId})`);
+                    }
+                }
+            }
+
+            if (pendingFrameworks.length === 0) {
+                console.log(`♻️ Reusing earlier analyses for call ${callId}`);
+                continue;
+            }
+
+            try {
+                console.log(`📞 Processing call: ${callId}`);
+
+                const enrichedCallDetails = await this.loadCallDetails(callId, signal);
 
                 console.log(`🔍 Framework Analyzer received enriched callDetails:`, JSON.stringify({
                     callId: enrichedCallDetails.callId,
@@ -221,44 +294,61 @@ export class FrameworkAnalyzer {
                 }, null, 2));
 
                 // Analyze against each requested framework
-                for (const framework of frameworks) {
+                for (const framework of pendingFrameworks) {
+                    throwIfCancelled(signal);
                     try {
                         console.log(`🧠 Analyzing call ${callId} against ${framework} framework`);
                         const analysis = await this.analyzeCallAgainstFramework(
                             enrichedCallDetails,  // Now includes transcript data
                             framework as ValidFramework,
-                            includeParticipantRoles
+                            includeParticipantRoles,
+                            signal,
+                            consistencySamples
                         );
                         callAnalyses.push(analysis);
+                        reportPartialResult?.(analysis);
                         console.log(`✅ Completed ${framework} analysis for call ${callId}, score: ${analysis.overallScore}`);
+                        if (this.analysisStore) {
+                            await this.storeAnalysis(storageKey(callId, framework), analysis);
+                        }
                     } catch (frameworkError) {
+                        throwIfCancelled(signal);
                         console.error(`❌ Error analyzing call ${callId} against ${framework} framework:`, this.formatError(frameworkError));
                         // Create a fallback analysis for this specific framework
                         const fallbackAnalysis = this.createErrorAnalysis(callId, enrichedCallDetails, framework, frameworkError);
                         callAnalyses.push(fallbackAnalysis);
+                        reportPartialResult?.(fallbackAnalysis);
                     }
+                    reportProgress?.(++completedSteps, totalSteps, `Analyzed call ${callIndex + 1}/${callIds.length} (${callId}) against ${framework}`);
                 }
             } catch (callError) {
+                throwIfCancelled(signal);
                 console.error(`❌ Error fetching call data for ${callId}:`, this.formatError(callError));
 
                 // Try to get basic call details even if analysis fails
                 try {
                     console.log(`⚠️ Attempting to get basic call details for ${callId}...`);
-                    const basicCallDetails = await this.gongService.getGongCallDetails({ callId });
+                    const basicCallDetails = await this.gongService.getGongCallDetails({ callId }, signal);
 
                     // Analyze with basic details
-                    for (const framework of frameworks) {
+                    for (const framework of pendingFrameworks) {
                         const fallbackAnalysis = this.createErrorAnalysis(callId, basicCallDetails, framework, callError);
                         callAnalyses.push(fallbackAnalysis);
+                        reportPartialResult?.(fallbackAnalysis);
                     }
                 } catch (basicCallError) {
+                    throwIfCancelled(signal);
                     console.error(`❌ Failed to get even basic call details for ${callId}:`, this.formatError(basicCallError));
                     // Create a minimal error analysis
-                    for (const framework of frameworks) {
+                    for (const framework of pendingFrameworks) {
                         const minimalAnalysis = this.createErrorAnalysis(callId, null, framework, callError);
                         callAnalyses.push(minimalAnalysis);
+                        reportPartialResult?.(minimalAnalysis);
                     }
                 }
+
+                completedSteps = (callIndex + 1) * frameworks.length;
+                reportProgress?.(completedSteps, totalSteps, `Could not analyze call ${callIndex + 1}/${callIds.length} (${callId})`);
             }
         }
 
@@ -271,10 +361,86 @@ export class FrameworkAnalyzer {
         return result;
     }
 
+    /**
+     * Analyze call details that did not come from Gong, such as the gold calls of the calibration set.
+     * The analysis is returned as is and never stored.
+     */
+    async analyzeProvidedCall(
+        callDetails: any,
+        framework: ValidFramework,
+        options: { consistencySamples?: number; signal?: AbortSignal } = {}
+    ): Promise<CallAnalysis> {
+        FrameworkAnalysisValidator.validateConsistencySamples(options.consistencySamples);
+        return await this.analyzeCallAgainstFramework(callDetails, framework, true, options.signal, options.consistencySamples);
+    }
+
+    /**
+     * Gong call details merged with the call's transcript and transcript summary, as the analysis prompts expect them
+     */
+    private async loadCallDetails(callId: string, signal?: AbortSignal): Promise<any> {
+        // UPDATED: Get BOTH call details AND transcript data
+        const [callDetails, transcriptData] = await Promise.all([
+            this.gongService.getGongCallDetails({ callId }, signal),
+            this.gongService.getGongCallTranscript(callId, signal)
+        ]);
+
+        console.log(`✅ Got call details for ${callId}:`, callDetails.callId);
+        console.log(`✅ Got transcript data for ${callId}:`, {
+            hasTranscript: transcriptData.hasTranscript,
+            transcriptLength: transcriptData.transcript?.length || 0
+        });
+
+        // UPDATED: Merge call details with transcript data
+        return {
+            ...callDetails,
+            transcript: transcriptData.transcript || [],
+            hasTranscript: transcriptData.hasTranscript || false,
+            // Generate transcript summary if transcript is available
+            transcriptSummary: transcriptData.hasTranscript && transcriptData.transcript?.length > 0
+                ? this.gongService.generateTranscriptSummary(transcriptData.transcript)
+                : null
+        };
+    }
+
+    // Version of the prompts a framework analysis is built from, part of the key for stored analyses
+    async getPromptVersion(): Promise<string> {
+        return await this.promptManager.getTemplatesVersion(['system-prompt', 'enhanced-analysis', 'basic-analysis', 'evidence-extraction']);
+    }
+
+    // Storage problems never fail an analysis - the call is just analyzed (or returned) without it
+    private async loadStoredAnalysis(key: AnalysisKey): Promise<CallAnalysis | null> {
+        try {
+            const stored = await this.analysisStore?.get(key);
+            if (stored) {
+                console.log(`💾 Using stored ${key.framework} analysis for call ${key.callId}`);
+            }
+            return stored || null;
+        } catch (error) {
+            console.warn(`⚠️ Could not read stored analysis for call ${key.callId}:`, this.formatError(error));
+            return null;
+        }
+    }
+
+    private async storeAnalysis(key: AnalysisKey, analysis: CallAnalysis): Promise<void> {
+        // A stored analysis is served until the versions change, so failures must never reach the store
+        if (!isScoredAnalysis(analysis)) {
+            console.warn(`⚠️ Not storing unscored ${key.framework} analysis of call ${key.callId}: ${analysis.errorReason || 'no sub-component scores'}`);
+            return;
+        }
+
+        try {
+            await this.analysisStore?.save(key, analysis, getModelSettings('framework_analysis', this.llmProvider).model);
+        } catch (error) {
+            console.warn(`⚠️ Could not store analysis for call ${key.callId}:`, this.formatError(error));
+        }
+    }
+
     private async analyzeCallAgainstFramework(
         callDetails: any,
         framework: ValidFramework,
-        includeParticipantRoles: boolean
+        includeParticipantRoles: boolean,
+        signal?: AbortSignal,
+        consistencySamples: number = 1
     ): Promise<CallAnalysis> {
         // UPDATED: Now load definition from file (async)
         const frameworkDef = await getFrameworkDefinition(framework); // ADD await
@@ -292,15 +458,51 @@ export class FrameworkAnalyzer {
             callDetails,
             framework: frameworkDef,
             resources: frameworkResources,
-            includeParticipantRoles
+            includeParticipantRoles,
+            signal,
+            // Long transcripts are read window by window once; every scoring sample uses the same evidence
+            evidence: await this.extractLongTranscriptEvidence(frameworkDef, callDetails, signal)
         };
     
         console.log(`🔬 Performing enhanced analysis for ${frameworkDef.displayName || frameworkDef.name} with loaded resources`);
     
         // Use Anthropic to analyze the call content with enhanced context
-        const analysis = await this.performFrameworkAnalysis(analysisContext);
+        let analysis: Partial<CallAnalysis>;
+        let consistency: ScoringConsistency | undefined;
+        if (consistencySamples > 1) {
+            console.log(`🎲 Scoring call ${callDetails.callId} ${consistencySamples} times against ${frameworkDef.name} for consistency`);
+            const samples = await Promise.all(Array.from({ length: consistencySamples }, () => this.performFrameworkAnalysis(analysisContext)));
+            // Samples are judged like a finished analysis: a model reply without a status is completed, and its
+            // overall score comes from the weights. Fallbacks and samples without scores have nothing to contribute
+            const scoredSamples = samples.filter(sample => isScoredAnalysis({
+                analysisStatus: sample.analysisStatus ?? 'completed',
+                overallScore: scoreFrameworkAnalysis(frameworkDef, sample.components ?? []).overallScore,
+                components: sample.components ?? []
+            }));
+            if (scoredSamples.length > 0) {
+                ({ analysis, consistency } = aggregateScoringSamples(frameworkDef, scoredSamples, consistencySamples));
+                console.log(`🎲 ${consistency.samples}/${consistencySamples} samples scored, overall scores ${consistency.overallScores.join(', ')}; uncertain: ${consistency.uncertain.join('; ') || 'none'}`);
+            } else {
+                // Reported as a failed analysis, so it is neither stored nor reused and a resumed job retries it
+                const reason = samples[0].errorReason || 'no sub-component scores returned';
+                console.warn(`⚠️ All ${consistencySamples} consistency samples of call ${callDetails.callId} failed: ${reason}`);
+                analysis = {
+                    ...samples[0],
+                    analysisStatus: samples[0].analysisStatus === 'incomplete' ? 'incomplete' : 'error',
+                    errorReason: `All ${consistencySamples} consistency samples failed: ${reason}`
+                };
+            }
+        } else {
+            analysis = await this.performFrameworkAnalysis(analysisContext);
+        }
 
         this.logCitationValidation(analysis, callDetails.callId);
+
+        // Component and overall scores come from the sub-component scores and the declared weights, not the model
+        const scoring = scoreFrameworkAnalysis(frameworkDef, analysis.components ?? []);
+        console.log(`🧮 Weighted ${frameworkDef.name} score: ${scoring.breakdown.calculation}`);
+        // Fallback analyses from a failed model call or an unparseable reply keep their error status
+        const failed = analysis.analysisStatus === 'error' || analysis.analysisStatus === 'incomplete';
     
         return {
             callId: callDetails.callId,
@@ -309,11 +511,18 @@ export class FrameworkAnalyzer {
             callDate: callDetails.date,
             callBrief: analysis.callBrief || callDetails.brief || undefined, // Include brief from AI response or fallback to call details
             participants: this.extractParticipants(callDetails),
+            rep: callDetails.rep,
+            callStartedAt: callDetails.startedAt,
             duration: callDetails.duration,
             framework: frameworkDef.displayName || frameworkDef.name, // Use displayName if available
-            overallScore: analysis.overallScore ?? 0,
-            analysisStatus: 'completed',
-            components: analysis.components ?? [],
+            overallScore: scoring.overallScore,
+            analysisStatus: failed ? analysis.analysisStatus! : 'completed',
+            ...(failed ? { errorReason: analysis.errorReason } : {}),
+            components: scoring.components,
+            scoreBreakdown: scoring.breakdown,
+            transcriptWindows: analysis.transcriptWindows,
+            citationAccuracy: analysis.citationAccuracy,
+            consistency,
             executiveSummary: analysis.executiveSummary ?? { strengths: [], weaknesses: [], recommendations: [] },
             followUpCallPlanning: analysis.followUpCallPlanning ?? this.createDefaultFollowUpPlan(callDetails, frameworkDef.displayName || frameworkDef.name)
         };
@@ -342,42 +551,43 @@ export class FrameworkAnalyzer {
     }
 
     private async performFrameworkAnalysis(context: any): Promise<Partial<CallAnalysis>> {
-        const { callDetails, framework, resources, includeParticipantRoles } = context;
+        const { callDetails, framework, resources, includeParticipantRoles, signal } = context;
+        const evidence: MergedEvidence | null = context.evidence;
+
+        // For a long transcript the scoring prompt gets the evidence merged from its windows instead
+        const transcriptInfo = evidence ? this.promptManager.buildChunkedEvidenceInfo(callDetails, evidence) : undefined;
 
         console.log(`🧠 Building enhanced analysis prompt for ${framework.name}`);
         
         // Use templates for prompt building
         const analysisPrompt = resources ?
-            await this.buildEnhancedAnalysisPrompt(framework, resources, callDetails, includeParticipantRoles) :
-            await this.buildAnalysisPrompt(framework, callDetails, includeParticipantRoles);
+            await this.buildEnhancedAnalysisPrompt(framework, resources, callDetails, includeParticipantRoles, transcriptInfo) :
+            await this.buildAnalysisPrompt(framework, callDetails, includeParticipantRoles, transcriptInfo);
 
         const systemPrompt = await this.buildSystemPrompt(resources, callDetails);
 
         let responseText: string = '';
 
         try {
-            console.log('📡 Calling Anthropic for framework analysis...');
-            const modelId = process.env.ANTHROPIC_MODEL;
-            console.log('🔍 Using model:', modelId);
+            console.log(`📡 Calling ${this.llmProvider.name} provider for framework analysis...`);
+            const { params, options } = taskRequest('framework_analysis', this.llmProvider);
+            console.log('🔍 Using model:', params.model);
             
-            const response = await this.anthropicClient.messages.create({
-                model: modelId,
-                max_tokens: 4000,
+            const response = await this.llmProvider.createMessage({
+                ...params,
                 messages: [{
                     role: 'user',
                     content: analysisPrompt
                 }],
                 system: systemPrompt
-            });
+            }, { ...options, signal });
 
             console.log('✅ Received Anthropic response, parsing JSON...');
 
-            // Handle different response formats from Anthropic
-            if (Array.isArray(response.content)) {
-                responseText = response.content[0].text;
-            } else if (typeof response.content === 'string') {
-                responseText = response.content;
-            } else {
+            responseText = response.content
+                .map(block => block.type === 'text' ? block.text : '')
+                .join('');
+            if (!responseText) {
                 throw new Error('Unexpected response format from Anthropic');
             }
 
@@ -399,6 +609,13 @@ export class FrameworkAnalyzer {
                 missingCitations: citationValidation.missingCitations.length
             });
 
+            // Check quotes against the transcript before Gong links are built from their timestamps
+            const citationAccuracy = verifyAnalysisCitations(analysisResult, callDetails.hasTranscript ? callDetails.transcript : []);
+            if (citationAccuracy) {
+                analysisResult.citationAccuracy = citationAccuracy;
+                console.log(`🔎 Citation verification: ${citationAccuracy.verified + citationAccuracy.corrected}/${citationAccuracy.checked} quotes found in the transcript, ${citationAccuracy.corrected} corrected, ${citationAccuracy.dropped} dropped`);
+            }
+
             // Enhance analysis with citations if needed
             let enhancedAnalysis = this.enhanceAnalysisWithCitations(analysisResult, callDetails);
             console.log('✅ Enhanced analysis with citations');
@@ -407,9 +624,13 @@ export class FrameworkAnalyzer {
             enhancedAnalysis = this.addUrlsToCitations(enhancedAnalysis, callDetails.callUrl);
             console.log('✅ Added Gong URLs to citations');
 
+            if (evidence) {
+                enhancedAnalysis.transcriptWindows = evidence.windows.map(({ range, evidenceCount, error }) => ({ range, evidenceCount, error }));
+            }
             return enhancedAnalysis;
 
         } catch (error) {
+            throwIfCancelled(signal);
             console.error('❌ Error in framework analysis:', error);
 
             // Detailed error logging for debugging
@@ -444,33 +665,138 @@ export class FrameworkAnalyzer {
         framework: FrameworkDefinition,
         resources: FrameworkResources,
         callDetails: any,
-        includeParticipantRoles: boolean
+        includeParticipantRoles: boolean,
+        transcriptInfo?: string
     ): Promise<string> {
         const context = this.promptManager.buildEnhancedAnalysisContext(
             framework,
             resources,
             callDetails,
-            includeParticipantRoles
+            includeParticipantRoles,
+            transcriptInfo
         );
 
         return await this.promptManager.renderPrompt('enhanced-analysis', context);
     }
 
+    /**
+     * Render the enhanced-analysis prompt for a definition that may not be saved yet, with the framework's
+     * methodology and examples. Used by the framework editor preview.
+     */
+    async renderEnhancedAnalysisPrompt(framework: FrameworkDefinition, callDetails: any): Promise<string> {
+        const resources = getFrameworkRegistry().has(framework.name) ? await this.loadFrameworkResources(framework.name) : {};
+        return await this.buildEnhancedAnalysisPrompt(framework, resources, callDetails, true);
+    }
+
+    /**
+     * The system prompt and analysis prompt a framework analysis of a Gong call is built from, rendered from the
+     * same templates and call data the analyzer sends to the model. Used by the MCP prompts.
+     */
+    async renderCallAnalysisPrompts(
+        callId: string,
+        framework: ValidFramework,
+        template: 'enhanced-analysis' | 'basic-analysis' = 'enhanced-analysis'
+    ): Promise<{ callDetails: any; systemPrompt: string; analysisPrompt: string }> {
+        const frameworkDef = await getFrameworkDefinition(framework);
+        const resources = await this.loadFrameworkResources(framework);
+        const callDetails = await this.loadCallDetails(callId);
+
+        return {
+            callDetails,
+            systemPrompt: await this.buildSystemPrompt(resources, callDetails),
+            analysisPrompt: template === 'enhanced-analysis'
+                ? await this.buildEnhancedAnalysisPrompt(frameworkDef, resources, callDetails, true)
+                : await this.buildAnalysisPrompt(frameworkDef, callDetails, true)
+        };
+    }
+
     // UPDATED: Basic prompt building with templates
     private async buildAnalysisPrompt(
         framework: FrameworkDefinition,
         callDetails: any,
-        includeParticipantRoles: boolean
+        includeParticipantRoles: boolean,
+        transcriptInfo?: string
     ): Promise<string> {
         const context = this.promptManager.buildBasicAnalysisContext(
             framework,
             callDetails,
-            includeParticipantRoles
+            includeParticipantRoles,
+            transcriptInfo
         );
 
         return await this.promptManager.renderPrompt('basic-analysis', context);
     }
 
+    /**
+     * Map step for transcripts too long for one prompt: split the transcript into overlapping windows and extract
+     * evidence for every sub-component from each, one window at a time. Returns null for transcripts that fit.
+     * A window that fails is reported on the analysis; if every window fails the analysis fails.
+     */
+    private async extractLongTranscriptEvidence(
+        framework: FrameworkDefinition,
+        callDetails: any,
+        signal?: AbortSignal
+    ): Promise<MergedEvidence | null> {
+        const transcript: any[] = callDetails.hasTranscript && Array.isArray(callDetails.transcript) ? callDetails.transcript : [];
+        const settings = getTranscriptChunkingSettings();
+        if (!shouldChunkTranscript(transcript, settings)) {
+            return null;
+        }
+
+        const chunks = splitTranscript(transcript, settings);
+        console.log(`🪟 Transcript of call ${callDetails.callId} is ~${estimateTranscriptTokens(transcript)} tokens, extracting ${framework.name} evidence from ${chunks.length} windows`);
+
+        const results: Array<WindowEvidence | { error: string }> = [];
+        for (const chunk of chunks) {
+            throwIfCancelled(signal);
+            try {
+                const windowEvidence = await this.extractWindowEvidence(framework, callDetails, chunk, chunks.length, signal);
+                console.log(`✅ Window ${chunk.index + 1}/${chunks.length} (${chunk.range}): ${windowEvidence.evidence.length} pieces of evidence`);
+                results.push(windowEvidence);
+            } catch (error) {
+                throwIfCancelled(signal);
+                console.warn(`⚠️ Could not extract evidence from window ${chunk.index + 1}/${chunks.length} (${chunk.range}) of call ${callDetails.callId}:`, this.formatError(error));
+                results.push({ error: this.formatError(error) });
+            }
+        }
+
+        if (results.every(result => 'error' in result)) {
+            throw new Error(`Could not extract evidence from any of the ${chunks.length} transcript windows`);
+        }
+        return mergeWindowEvidence(framework, chunks, results);
+    }
+
+    private async extractWindowEvidence(
+        framework: FrameworkDefinition,
+        callDetails: any,
+        chunk: TranscriptChunk,
+        chunkCount: number,
+        signal?: AbortSignal
+    ): Promise<WindowEvidence> {
+        const prompt = await this.promptManager.renderWithValues('evidence-extraction', {
+            frameworkName: framework.displayName || framework.name,
+            callTitle: callDetails.title,
+            windowNumber: String(chunk.index + 1),
+            windowCount: String(chunkCount),
+            windowRange: chunk.range,
+            transcriptLines: this.promptManager.formatTranscriptLines(chunk.entries, { ranges: true }),
+            frameworkComponents: this.promptManager.buildFrameworkComponentsText(framework)
+        });
+
+        const { params, options } = taskRequest('evidence_extraction', this.llmProvider);
+        const response = await this.llmProvider.createMessage({
+            ...params,
+            messages: [{ role: 'user', content: prompt }]
+        }, { ...options, signal });
+
+        const responseText = response.content.map(block => block.type === 'text' ? block.text : '').join('');
+        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+            throw new Error('No JSON object found in response');
+        }
+        return parseWindowEvidence(JSON.parse(jsonrepair(jsonMatch[0])));
+    }
+
     // ALL YOUR PRESERVED METHODS FROM ORIGINAL (keeping all your sophisticated logic):
 
     private extractParticipants(callDetails: any): string[] {
@@ -811,12 +1137,12 @@ private logCitationValidation(analysis: Partial<CallAnalysis>, callId: string):
         try {
             const AnalysisSchema = z.object({
                 callBrief: z.string().optional(), // Optional Gong brief
-                overallScore: z.number().min(1).max(10).nullable(), // 1-10 or null
+                overallScore: z.number().nullable().optional(), // Computed from the sub-component scores
                 analysisStatus: z.enum(['completed', 'error', 'incomplete']).optional(), // Optional for now
                 errorReason: z.string().optional(),
                 components: z.array(z.object({
                     name: z.string(),
-                    overallScore: z.number().min(1).max(10).nullable(), // 1-10 or null
+                    overallScore: z.number().nullable().optional(), // Computed from the sub-component scores
                     subComponents: z.array(z.object({
                         name: z.string(),
                         score: z.number().min(1).max(10).nullable(), // 1-10 or null
@@ -1310,6 +1636,8 @@ private logCitationValidation(analysis: Partial<CallAnalysis>, callId: string):
             callDate: callDetails?.date || 'Unknown',
             callBrief: callDetails?.brief || undefined, // Include brief if available
             participants: this.extractParticipants(callDetails || {}),
+            rep: callDetails?.rep,
+            callStartedAt: callDetails?.startedAt,
             duration: callDetails?.duration || 'Unknown',
             framework: frameworkName,
             overallScore: null, // ✅ NULL for errors (not 0)
@@ -1536,14 +1864,16 @@ private logCitationValidation(analysis: Partial<CallAnalysis>, callId: string):
 
 }
 
-export const safeFrameworkAnalysis = async (analyzer: FrameworkAnalyzer, args: any): Promise<AggregateAnalysis> => {
+export const safeFrameworkAnalysis = async (analyzer: FrameworkAnalyzer, args: any, context: ToolExecutionContext = {}): Promise<AggregateAnalysis> => {
     try {
         console.log('🔍 Starting safe framework analysis...');
         FrameworkAnalysisValidator.validateCallIds(args.callIds);
         FrameworkAnalysisValidator.validateFrameworks(args.frameworks);
 
-        return await analyzer.analyzeCallsFramework(args);
+        return await analyzer.analyzeCallsFramework(args, context);
     } catch (error) {
+        // Cancellation is not an analysis failure - let the caller see it
+        throwIfCancelled(context.signal);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error('❌ Safe framework analysis failed:', errorMessage);
 
@@ -1,13 +1,8 @@
 import dotenv from 'dotenv';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import { getFrameworkRegistry } from './framework-registry';
 
 dotenv.config({ path: '.env.local' });
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 
 // services/framework-definitions.ts
 
@@ -31,6 +26,7 @@ export interface SubComponent {
         poor: string;      // 1-4
     };
     coachingTips?: string[];
+    exampleQuestions?: string[];
 }
 
 export interface FrameworkDefinition {
@@ -39,12 +35,15 @@ export interface FrameworkDefinition {
     description: string;
     version?: string; // NEW: from your files
     category?: string; // NEW: from your files
+    valueDrivers?: string[];
     components: FrameworkComponent[];
     analysisMetadata?: { // NEW: from your files
-        totalPossibleScore: number;
+        totalPossibleScore?: number;
         scoringScale: Record<string, number>;
         frameworkApplication: string;
         lastUpdated: string;
+        weights?: Record<string, number>;
+        notes?: string[];
     };
 }
 
@@ -55,15 +54,33 @@ export interface SubComponentScore {
     evidence: string[];
     qualitativeAssessment: string;
     improvementSuggestions: string[];
+    consistency?: SubComponentConsistency; // Set in consistency mode, where score is the median of the samples
+}
+
+// How the independent scoring samples of consistency mode scored one sub-component
+export interface SubComponentConsistency {
+    scores: Array<number | null>; // One per sample, null where the sample did not score it
+    median: number | null;
+    variance: number | null;
+    spread: number | null; // Highest minus lowest score
+    uncertain: boolean; // The samples disagree too much for the median to be trusted
 }
 
 export interface ComponentAnalysis {
     name: string;
-    overallScore: number|null; // Average of sub-component scores
+    overallScore: number|null; // Weighted average of sub-component scores, computed by services/framework-scoring.ts
     subComponents: SubComponentScore[];
     keyFindings: string[];
 }
 
+// Internal seller a call is attributed to, from Gong party data
+export interface CallRep {
+    userId?: string;
+    name: string;
+    email?: string;
+    title?: string;
+}
+
 export interface CallAnalysis {
     callId: string;
     callTitle: string;
@@ -71,12 +88,18 @@ export interface CallAnalysis {
     callDate: string;
     callBrief?: string; // Gong AI-generated call brief summary
     participants: string[];
+    rep?: CallRep; // Attributes the call for rep trends
+    callStartedAt?: string; // ISO start time of the call
     duration: string;
     framework: string;
-    overallScore: number | null; // Average of all component scores, null if unable to score
+    overallScore: number | null; // Weighted average of component scores, null if unable to score
     analysisStatus: 'completed' | 'error' | 'incomplete'; // NEW: Track why null
     errorReason?: string; // NEW: Explain error if status is error/incomplete
     components: ComponentAnalysis[];
+    scoreBreakdown?: ScoreBreakdown; // How overallScore and the component scores were derived
+    transcriptWindows?: TranscriptWindowSummary[]; // Set when a long transcript was analyzed in overlapping windows
+    citationAccuracy?: CitationAccuracy; // How many cited quotes were found in the transcript, set when there is one
+    consistency?: ScoringConsistency; // Set when the call was scored in consistency mode
     executiveSummary: {
         strengths: string[];
         weaknesses: string[];
@@ -86,6 +109,60 @@ export interface CallAnalysis {
 }
 
 
+// One time window of a long transcript, read separately for evidence before the call was scored
+export interface TranscriptWindowSummary {
+    range: string; // "mm:ss - mm:ss" from the start of the call
+    evidenceCount: number;
+    error?: string; // The window could not be read, so the score is missing its evidence
+}
+
+// Consistency mode: the call was scored by several independent samples and each sub-component gets the median
+export interface ScoringConsistency {
+    requestedSamples: number;
+    samples: number; // Samples that returned a usable analysis
+    overallScores: Array<number | null>; // Weighted overall score of each sample
+    overallVariance: number | null;
+    agreement: number | null; // Share of scored sub-components the samples agree on
+    uncertain: string[]; // "Component / Sub-component" of every uncertain score
+}
+
+// Citations checked against the transcript by services/citation-verification.ts
+export interface CitationAccuracy {
+    checked: number;
+    verified: number; // Quote, speaker and timestamp all match the transcript
+    corrected: number; // Quote found; speaker or timestamp corrected from the matched transcript lines
+    unverified: number; // Quote not found in the transcript
+    dropped: number; // Unverified citations removed from evidence lists
+    quoteAccuracy: number | null; // Share of checked citations whose quote was found
+    accuracy: number | null; // Share of checked citations that were right as given
+}
+
+// One weighted term of a score: share is the weight normalized over the scored items, contribution is share × score
+export interface WeightedScore {
+    name: string;
+    score: number | null;
+    weight: number; // Declared weight, 1 when the definition has none
+    share: number; // 0 when not scored
+    contribution: number | null;
+}
+
+export interface ComponentScoreBreakdown extends WeightedScore {
+    calculation: string;
+    subComponents: WeightedScore[];
+}
+
+export interface ScoreBreakdown {
+    method: 'weighted_average' | 'unweighted_average'; // Unweighted when nothing scored matches the definition
+    scale: { min: number; max: number; bands: Record<string, number> }; // From analysisMetadata.scoringScale
+    overallScore: number | null;
+    rating: string | null; // Scale band of the overall score, e.g. "good"
+    calculation: string;
+    totalPossibleScore?: number;
+    points: number | null; // Overall score out of totalPossibleScore
+    components: ComponentScoreBreakdown[];
+    unmatched: string[]; // Components and sub-components the model scored that are not in the definition
+}
+
 export interface AggregateAnalysis {
     totalCalls: number;
     scoredCalls: number;
@@ -115,6 +192,13 @@ export interface CustomerCitation {
     quote: string;
     context?: string;
     url?: string; // Gong URL with timestamp highlight for clickable citations
+    verification?: CitationVerification;
+}
+
+export interface CitationVerification {
+    status: 'verified' | 'corrected' | 'unverified';
+    matchScore: number; // Share of the quote's word pairs found in the matched transcript lines, 0-1
+    corrections?: string[]; // e.g. 'timestamp "5:23 - 5:35" -> "7:02 - 7:15"'
 }
 
 export interface FollowUpCallPlanning {
@@ -158,8 +242,6 @@ export interface FollowUpCallPlanning {
     }>;
 }
 
-const frameworkCache: Map<string, FrameworkDefinition> = new Map();
-
 // Command of Message Framework Definition
 export const COMMAND_OF_THE_MESSAGE_FRAMEWORK: FrameworkDefinition = {
     name: "Command of the Message",
@@ -937,67 +1019,29 @@ export const DEMO2WIN_FRAMEWORK: FrameworkDefinition = {
 
 
 // Helper Functions
+// Frameworks come from services/frameworks/*/definition.json via the registry (services/framework-registry.ts)
 export async function getFrameworkDefinition(frameworkName: string): Promise<FrameworkDefinition> {
-    if (!validateFrameworkName(frameworkName)) {
-        throw new Error(`Unknown framework: ${frameworkName}`);
-    }
-    
-    return await loadFrameworkFromFile(frameworkName);
+    return getFrameworkDefinitionSync(frameworkName);
 }
 
 export function getFrameworkDefinitionSync(frameworkName: string): FrameworkDefinition {
-    if (!validateFrameworkName(frameworkName)) {
+    const definition = getFrameworkRegistry().get(frameworkName);
+    if (!definition) {
         throw new Error(`Unknown framework: ${frameworkName}`);
     }
-    
-    const cached = frameworkCache.get(frameworkName);
-    if (cached) {
-        return cached;
-    }
-    
-    throw new Error(`Framework definition for ${frameworkName} not loaded. Call getFrameworkDefinition() first.`);
+    return definition;
 }
 
-async function loadFrameworkFromFile(frameworkName: string): Promise<FrameworkDefinition> {
-    const cacheKey = frameworkName;
-    
-    // Check cache first
-    if (frameworkCache.has(cacheKey)) {
-        console.log(`📚 Using cached framework definition for ${frameworkName}`);
-        return frameworkCache.get(cacheKey)!;
-    }
-
-    try {
-        const frameworksPath = path.join(__dirname, 'frameworks');
-        const definitionPath = path.join(frameworksPath, frameworkName, 'definition.json');
-        
-        console.log(`📖 Loading framework definition from: ${definitionPath}`);
-        const definitionContent = await fs.readFile(definitionPath, 'utf8');
-        const definition: FrameworkDefinition = JSON.parse(definitionContent);
-        
-        // Cache the definition
-        frameworkCache.set(cacheKey, definition);
-        console.log(`✅ Loaded framework definition for ${definition.displayName || definition.name}`);
-        
-        return definition;
-    } catch (error) {
-        console.error(`❌ Failed to load framework definition for ${frameworkName}:`, error);
-        
-        // Fallback to a minimal definition to prevent complete failure
-        const fallbackDefinition: FrameworkDefinition = {
-            name: frameworkName,
-            displayName: frameworkName.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
-            description: `Framework definition for ${frameworkName} (fallback)`,
-            components: []
-        };
-        
-        return fallbackDefinition;
-    }
+export function validateFrameworkName(frameworkName: string): boolean {
+    return getFrameworkRegistry().has(frameworkName);
 }
 
-export function validateFrameworkName(frameworkName: string): boolean {
-    return ["command_of_the_message", "great_demo", "demo2win", "miro_value_selling"].includes(frameworkName);
+/**
+ * Ids of every framework with a valid definition, e.g. ['command_of_the_message', 'great_demo', ...]
+ */
+export function getValidFrameworks(): string[] {
+    return getFrameworkRegistry().ids();
 }
 
-export const VALID_FRAMEWORKS = ["command_of_the_message", "great_demo", "demo2win", "miro_value_selling"] as const;
-export type ValidFramework = typeof VALID_FRAMEWORKS[number];
\ No newline at end of file
+// Any framework id known to the registry
+export type ValidFramework = string;
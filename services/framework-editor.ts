@@ -0,0 +1,252 @@
+// services/framework-editor.ts
+// Versioned edits of framework definitions for the admin framework editor. Every save validates the
+// definition, bumps its version (stored analyses are keyed by framework version, so calls get re-scored with
+// the edited framework) and keeps a snapshot in frameworks/<id>/.history, which is what rollback restores from.
+// The history directory is dot-prefixed, so the registry neither loads nor fingerprints it.
+import fs from 'fs/promises';
+import path from 'path';
+import type { FrameworkDefinition } from './framework-definitions';
+import { FrameworkRegistry, FrameworkSummary, getFrameworkRegistry } from './framework-registry';
+import { validateFrameworkDefinition } from './framework-schema';
+
+// Markdown files sales enablement maintains next to definition.json
+export const EDITABLE_FRAMEWORK_FILES = ['scoring_rubric.md', 'planning_checklist.md'];
+
+const HISTORY_DIR = '.history';
+
+export interface FrameworkRevision {
+    revision: number;
+    version: string;
+    savedAt: string;
+    savedBy: string;
+    message: string;
+}
+
+interface FrameworkSnapshot extends FrameworkRevision {
+    definition: FrameworkDefinition;
+    files: Record<string, string>;
+}
+
+export interface EditableFramework {
+    summary: FrameworkSummary;
+    definition: FrameworkDefinition;
+    files: Record<string, string>;
+    // Set when definition.json on disk is invalid and the registry serves the last valid definition
+    loadError?: string;
+    revisions: FrameworkRevision[];
+}
+
+export interface FrameworkSaveRequest {
+    definition: unknown;
+    files?: Record<string, string>;
+    message?: string;
+    savedBy: string;
+    // Version the edit started from; saving over a newer version is rejected
+    baseVersion?: string;
+}
+
+export type FrameworkEditResult =
+    | { ok: true; framework: EditableFramework }
+    | { ok: false; status: 400 | 404 | 409; error: string; issues?: string[] };
+
+/**
+ * Next version after `version`: the last number is incremented ("1.0" -> "1.1", "2.3.9" -> "2.3.10")
+ */
+export function nextFrameworkVersion(version?: string): string {
+    if (!version) {
+        return '1.1';
+    }
+    const match = version.match(/^(.*?)(\d+)$/);
+    return match ? `${match[1]}${parseInt(match[2], 10) + 1}` : `${version}.1`;
+}
+
+function describeRevision({ revision, version, savedAt, savedBy, message }: FrameworkSnapshot): FrameworkRevision {
+    return { revision, version, savedAt, savedBy, message };
+}
+
+export class FrameworkEditor {
+    // Saves to one framework run one at a time
+    private locks: Map<string, Promise<unknown>> = new Map();
+
+    constructor(private registry: FrameworkRegistry = getFrameworkRegistry()) {}
+
+    async get(id: string): Promise<EditableFramework | null> {
+        const definition = this.registry.get(id);
+        const summary = this.registry.list().find(entry => entry.id === id);
+        if (!definition || !summary) {
+            return null;
+        }
+
+        return {
+            summary,
+            definition,
+            files: await this.readFiles(id),
+            loadError: this.registry.loadErrors.find(entry => entry.id === id)?.error,
+            revisions: (await this.readHistory(id)).map(describeRevision).reverse()
+        };
+    }
+
+    /**
+     * Validate and write a new version of the definition and editable files
+     */
+    async save(id: string, request: FrameworkSaveRequest): Promise<FrameworkEditResult> {
+        return this.withLock(id, async () => {
+            const current = this.registry.get(id);
+            if (!current) {
+                return { ok: false, status: 404, error: `Framework not found: ${id}` };
+            }
+
+            const currentVersion = current.version || 'unversioned';
+            if (request.baseVersion && request.baseVersion !== currentVersion) {
+                return {
+                    ok: false,
+                    status: 409,
+                    error: `${id} was saved as version ${currentVersion} since you started editing version ${request.baseVersion}. Reload to see the latest version.`
+                };
+            }
+
+            const unknownFiles = Object.keys(request.files || {}).filter(file => !EDITABLE_FRAMEWORK_FILES.includes(file));
+            if (unknownFiles.length > 0) {
+                return { ok: false, status: 400, error: `Files cannot be edited: ${unknownFiles.join(', ')}` };
+            }
+
+            const validation = validateFrameworkDefinition(id, request.definition);
+            if (!validation.ok) {
+                return { ok: false, status: 400, error: 'Invalid framework definition', issues: validation.issues };
+            }
+
+            await this.commit(id, validation.definition, request.files || {}, nextFrameworkVersion(current.version), request.savedBy, request.message || 'Edited in the framework editor');
+            return { ok: true, framework: (await this.get(id))! };
+        });
+    }
+
+    /**
+     * Restore the definition and files of an earlier revision as a new version, so the rollback itself can be undone
+     */
+    async rollback(id: string, revision: number, savedBy: string): Promise<FrameworkEditResult> {
+        return this.withLock(id, async () => {
+            const current = this.registry.get(id);
+            if (!current) {
+                return { ok: false, status: 404, error: `Framework not found: ${id}` };
+            }
+
+            const snapshot = (await this.readHistory(id)).find(entry => entry.revision === revision);
+            if (!snapshot) {
+                return { ok: false, status: 404, error: `Revision ${revision} not found for ${id}` };
+            }
+
+            // An older snapshot can predate schema changes
+            const validation = validateFrameworkDefinition(id, snapshot.definition);
+            if (!validation.ok) {
+                return { ok: false, status: 400, error: `Revision ${revision} is no longer a valid definition`, issues: validation.issues };
+            }
+
+            await this.commit(id, validation.definition, snapshot.files, nextFrameworkVersion(current.version), savedBy, `Rolled back to version ${snapshot.version}`);
+            return { ok: true, framework: (await this.get(id))! };
+        });
+    }
+
+    private async commit(
+        id: string,
+        definition: FrameworkDefinition,
+        files: Record<string, string>,
+        version: string,
+        savedBy: string,
+        message: string
+    ): Promise<void> {
+        const history = await this.readHistory(id);
+        if (history.length === 0) {
+            // Keep what was deployed before the first edit, so it can be rolled back to
+            const baseline = this.registry.get(id)!;
+            history.push(await this.writeSnapshot(id, {
+                revision: 1,
+                version: baseline.version || 'unversioned',
+                savedAt: new Date().toISOString(),
+                savedBy: 'deployment',
+                message: 'Version before the first edit',
+                definition: baseline,
+                files: await this.readFiles(id)
+            }));
+        }
+
+        const saved: FrameworkDefinition = {
+            ...definition,
+            version,
+            ...(definition.analysisMetadata
+                ? { analysisMetadata: { ...definition.analysisMetadata, lastUpdated: new Date().toISOString().slice(0, 10) } }
+                : {})
+        };
+
+        const frameworkDir = path.join(this.registry.directory, id);
+        for (const [file, content] of Object.entries(files)) {
+            await this.writeAtomically(path.join(frameworkDir, file), content);
+        }
+        await this.writeAtomically(path.join(frameworkDir, 'definition.json'), `${JSON.stringify(saved, null, 2)}\n`);
+
+        await this.writeSnapshot(id, {
+            revision: history[history.length - 1].revision + 1,
+            version,
+            savedAt: new Date().toISOString(),
+            savedBy,
+            message,
+            definition: saved,
+            files: await this.readFiles(id)
+        });
+
+        console.log(`📝 ${savedBy} saved ${id} version ${version}: ${message}`);
+        this.registry.refresh();
+    }
+
+    private async readFiles(id: string): Promise<Record<string, string>> {
+        const files: Record<string, string> = {};
+        for (const file of EDITABLE_FRAMEWORK_FILES) {
+            try {
+                files[file] = await fs.readFile(path.join(this.registry.directory, id, file), 'utf8');
+            } catch {
+                files[file] = '';
+            }
+        }
+        return files;
+    }
+
+    private async readHistory(id: string): Promise<FrameworkSnapshot[]> {
+        const historyDir = path.join(this.registry.directory, id, HISTORY_DIR);
+        let entries: string[];
+        try {
+            entries = await fs.readdir(historyDir);
+        } catch {
+            return [];
+        }
+
+        const snapshots: FrameworkSnapshot[] = [];
+        for (const entry of entries.filter(entry => entry.endsWith('.json'))) {
+            try {
+                snapshots.push(JSON.parse(await fs.readFile(path.join(historyDir, entry), 'utf8')));
+            } catch (error) {
+                console.warn(`⚠️ Skipping unreadable framework revision ${id}/${entry}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+        return snapshots.sort((a, b) => a.revision - b.revision);
+    }
+
+    private async writeSnapshot(id: string, snapshot: FrameworkSnapshot): Promise<FrameworkSnapshot> {
+        const historyDir = path.join(this.registry.directory, id, HISTORY_DIR);
+        await fs.mkdir(historyDir, { recursive: true });
+        await this.writeAtomically(path.join(historyDir, `${String(snapshot.revision).padStart(4, '0')}.json`), JSON.stringify(snapshot, null, 2));
+        return snapshot;
+    }
+
+    // The temporary file is dot-prefixed so the registry never picks it up mid-write
+    private async writeAtomically(target: string, content: string): Promise<void> {
+        const temporary = path.join(path.dirname(target), `.${path.basename(target)}.tmp`);
+        await fs.writeFile(temporary, content);
+        await fs.rename(temporary, target);
+    }
+
+    private async withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.locks.get(id) || Promise.resolve();
+        const run = previous.then(task, task);
+        this.locks.set(id, run.catch(() => undefined));
+        return run;
+    }
+}
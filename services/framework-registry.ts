@@ -0,0 +1,221 @@
+// services/framework-registry.ts
+// Frameworks discovered from services/frameworks/*/definition.json. Every definition is checked against a strict
+// schema of FrameworkDefinition, so adding a folder (e.g. frameworks/meddicc) makes a framework available to the
+// tools, the resource manifest and the MCP prompts without code changes. The service watches the directory and
+// reloads when a file changes.
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { FrameworkDefinition } from './framework-definitions';
+import { FRAMEWORK_ID_PATTERN, parseFrameworkDefinition } from './framework-schema';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Editors write files in several steps; wait for them to settle before reloading
+const RELOAD_DEBOUNCE_MS = 300;
+
+export interface FrameworkSummary {
+    id: string;
+    displayName: string;
+    description: string;
+    version: string;
+    category: string;
+}
+
+export interface FrameworkLoadError {
+    id: string;
+    error: string;
+}
+
+/**
+ * Emits 'change' after a reload that changed any framework file, once the new definitions are in place.
+ */
+export class FrameworkRegistry extends EventEmitter {
+    private frameworks: Map<string, FrameworkDefinition> = new Map();
+    private errors: Map<string, string> = new Map();
+    private contentHash = '';
+    private watcher?: fs.FSWatcher;
+    private reloadTimer?: NodeJS.Timeout;
+
+    constructor(readonly directory: string = path.join(__dirname, 'frameworks')) {
+        super();
+        this.reload();
+    }
+
+    ids(): string[] {
+        return [...this.frameworks.keys()].sort();
+    }
+
+    has(id: string): boolean {
+        return this.frameworks.has(id);
+    }
+
+    get(id: string): FrameworkDefinition | undefined {
+        return this.frameworks.get(id);
+    }
+
+    list(): FrameworkSummary[] {
+        return this.ids().map(id => {
+            const definition = this.frameworks.get(id)!;
+            return {
+                id,
+                displayName: definition.displayName || definition.name,
+                description: definition.description,
+                version: definition.version || 'unversioned',
+                category: definition.category || 'sales_methodology'
+            };
+        });
+    }
+
+    /**
+     * Directories whose definition.json failed validation. A framework that was valid before keeps serving
+     * its last valid definition until the file is fixed.
+     */
+    get loadErrors(): FrameworkLoadError[] {
+        return [...this.errors.entries()].map(([id, error]) => ({ id, error }));
+    }
+
+    /**
+     * Short hash of every file under the frameworks directory; changes whenever any of them does
+     */
+    get fingerprint(): string {
+        return this.contentHash;
+    }
+
+    /**
+     * Re-read every framework directory. Synchronous so the registry is usable as soon as it is constructed.
+     */
+    reload(): void {
+        const previous = this.frameworks;
+        const frameworks = new Map<string, FrameworkDefinition>();
+        const errors = new Map<string, string>();
+        const hash = crypto.createHash('sha256');
+
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = fs.readdirSync(this.directory, { withFileTypes: true });
+        } catch (error) {
+            console.error(`❌ Could not read frameworks directory ${this.directory}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        for (const entry of entries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.')).sort((a, b) => a.name.localeCompare(b.name))) {
+            const id = entry.name;
+            const frameworkDir = path.join(this.directory, id);
+
+            let content: string;
+            try {
+                content = fs.readFileSync(path.join(frameworkDir, 'definition.json'), 'utf8');
+            } catch {
+                // Not a framework (yet) - a directory being created gets picked up once definition.json appears
+                continue;
+            }
+
+            try {
+                if (!FRAMEWORK_ID_PATTERN.test(id)) {
+                    throw new Error('directory name must be lowercase letters, digits, "_" or "-"');
+                }
+                frameworks.set(id, parseFrameworkDefinition(id, content));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                errors.set(id, message);
+                const lastValid = previous.get(id);
+                if (lastValid) {
+                    frameworks.set(id, lastValid);
+                    console.error(`❌ Invalid framework definition ${id}, keeping the last valid version: ${message}`);
+                } else {
+                    console.error(`❌ Invalid framework definition ${id}, skipping: ${message}`);
+                }
+            }
+
+            for (const file of this.listFiles(frameworkDir)) {
+                hash.update(`${id}/${file}\0`);
+                try {
+                    hash.update(fs.readFileSync(path.join(frameworkDir, file)));
+                } catch {
+                    // Deleted between readdir and read; the next reload settles it
+                }
+            }
+        }
+
+        this.frameworks = frameworks;
+        this.errors = errors;
+        this.contentHash = hash.digest('hex').slice(0, 8);
+        console.log(`📚 Loaded ${frameworks.size} framework(s): ${this.ids().join(', ')}`);
+    }
+
+    /**
+     * Reload now and emit 'change' if any framework file changed. Used after the framework editor saves, so
+     * the new version is served without waiting for the watcher.
+     */
+    refresh(): boolean {
+        clearTimeout(this.reloadTimer);
+        const before = this.contentHash;
+        this.reload();
+        if (this.contentHash === before) {
+            return false;
+        }
+
+        console.log(`🔄 Frameworks changed (${before} -> ${this.contentHash})`);
+        this.emit('change', this);
+        return true;
+    }
+
+    /**
+     * Reload when anything under the frameworks directory changes
+     */
+    watch(): void {
+        if (this.watcher) {
+            return;
+        }
+
+        try {
+            this.watcher = fs.watch(this.directory, { recursive: true }, () => this.scheduleReload());
+            this.watcher.on('error', error => {
+                console.warn('⚠️ Stopped watching frameworks directory:', error.message);
+                this.close();
+            });
+            this.watcher.unref();
+            console.log(`👀 Watching ${this.directory} for framework changes`);
+        } catch (error) {
+            console.warn('⚠️ Framework hot reload unavailable:', error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    close(): void {
+        this.watcher?.close();
+        this.watcher = undefined;
+        clearTimeout(this.reloadTimer);
+    }
+
+    private scheduleReload() {
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.refresh(), RELOAD_DEBOUNCE_MS);
+        this.reloadTimer.unref();
+    }
+
+    private listFiles(frameworkDir: string): string[] {
+        try {
+            return fs.readdirSync(frameworkDir, { withFileTypes: true })
+                .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+                .map(entry => entry.name)
+                .sort();
+        } catch {
+            return [];
+        }
+    }
+}
+
+let sharedRegistry: FrameworkRegistry | undefined;
+
+/**
+ * The process-wide registry of frameworks in services/frameworks
+ */
+export function getFrameworkRegistry(): FrameworkRegistry {
+    if (!sharedRegistry) {
+        sharedRegistry = new FrameworkRegistry();
+    }
+    return sharedRegistry;
+}
@@ -0,0 +1,95 @@
+// services/framework-schema.ts
+// Strict schema of a framework definition.json. Shared by the framework registry, the framework editor API and
+// the editor UI in the Next.js app, so this module must only depend on zod.
+import { z } from 'zod';
+import type { FrameworkDefinition } from './framework-definitions';
+
+// Framework ids double as directory names and resource:// URI segments
+export const FRAMEWORK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const ScoringCriteriaSchema = z.strictObject({
+    excellent: z.string().min(1),
+    good: z.string().min(1),
+    fair: z.string().min(1),
+    poor: z.string().min(1)
+});
+
+const SubComponentSchema = z.strictObject({
+    name: z.string().min(1),
+    description: z.string().min(1),
+    weight: z.number().positive().optional(),
+    keywords: z.array(z.string()),
+    scoringCriteria: ScoringCriteriaSchema,
+    coachingTips: z.array(z.string()).optional(),
+    exampleQuestions: z.array(z.string()).optional()
+});
+
+const ComponentSchema = z.strictObject({
+    name: z.string().min(1),
+    description: z.string().min(1),
+    weight: z.number().positive().optional(),
+    subComponents: z.array(SubComponentSchema).min(1)
+});
+
+export const FrameworkDefinitionSchema: z.ZodType<FrameworkDefinition> = z.strictObject({
+    name: z.string().regex(FRAMEWORK_ID_PATTERN, 'must be lowercase letters, digits, "_" or "-"'),
+    displayName: z.string().min(1).optional(),
+    description: z.string().min(1),
+    version: z.string().min(1).optional(),
+    category: z.string().min(1).optional(),
+    valueDrivers: z.array(z.string()).optional(),
+    components: z.array(ComponentSchema).min(1),
+    analysisMetadata: z.strictObject({
+        totalPossibleScore: z.number().positive().optional(),
+        scoringScale: z.record(z.string(), z.number()),
+        frameworkApplication: z.string(),
+        lastUpdated: z.string(),
+        weights: z.record(z.string(), z.number()).optional(),
+        notes: z.array(z.string()).optional()
+    }).optional()
+}).superRefine((definition, ctx) => {
+    // Scores are matched back to components by name
+    const names = definition.components.map(component => component.name);
+    for (const name of new Set(names.filter((name, index) => names.indexOf(name) !== index))) {
+        ctx.addIssue({ code: 'custom', path: ['components'], message: `Duplicate component name: ${name}` });
+    }
+});
+
+export type FrameworkValidationResult =
+    | { ok: true; definition: FrameworkDefinition }
+    | { ok: false; issues: string[] };
+
+/**
+ * Check a parsed definition for the framework directory `id`, listing every schema issue
+ */
+export function validateFrameworkDefinition(id: string, value: unknown): FrameworkValidationResult {
+    const result = FrameworkDefinitionSchema.safeParse(value);
+    if (!result.success) {
+        return {
+            ok: false,
+            issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        };
+    }
+    if (result.data.name !== id) {
+        return { ok: false, issues: [`name "${result.data.name}" must match the directory name "${id}"`] };
+    }
+    return { ok: true, definition: result.data };
+}
+
+/**
+ * Parse and validate a definition.json for the framework directory `id`. Throws with every schema issue listed.
+ */
+export function parseFrameworkDefinition(id: string, content: string): FrameworkDefinition {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`definition.json is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const result = validateFrameworkDefinition(id, json);
+    if (!result.ok) {
+        throw new Error(result.issues.join('; '));
+    }
+    return result.definition;
+}
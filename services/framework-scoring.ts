@@ -0,0 +1,168 @@
+// services/framework-scoring.ts
+// Deterministic scoring of a framework analysis. The model only scores sub-components; component scores are
+// the weighted average of their sub-component scores and the overall score is the weighted average of the
+// component scores, using the weights declared in definition.json. Sub-components or components without a
+// score are left out and the remaining weights are renormalized. The breakdown records every step.
+import type {
+    CallAnalysis,
+    ComponentAnalysis,
+    ComponentScoreBreakdown,
+    FrameworkDefinition,
+    ScoreBreakdown,
+    WeightedScore
+} from './framework-definitions';
+
+// Used when a definition has no analysisMetadata.scoringScale; matches the 1-10 scores the prompts ask for
+const DEFAULT_SCORING_SCALE: Record<string, number> = { excellent: 10, good: 7, fair: 4, poor: 1 };
+
+// Names and declared weights the scores are combined with
+interface WeightLayout {
+    name: string;
+    weight?: number;
+    subComponents: { name: string; weight?: number }[];
+}
+
+export interface FrameworkScoringResult {
+    components: ComponentAnalysis[];
+    overallScore: number | null;
+    breakdown: ScoreBreakdown;
+}
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Weighted average of the scored items. Fills in each item's share and contribution and returns the
+ * score with the calculation written out, e.g. "0.6 × 8 + 0.4 × 6 = 7.2".
+ */
+function weightedAverage(items: WeightedScore[]): { score: number | null; calculation: string } {
+    const scored = items.filter(item => item.score !== null);
+    const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+    if (scored.length === 0 || totalWeight <= 0) {
+        return { score: null, calculation: 'Not scored' };
+    }
+
+    let score = 0;
+    for (const item of scored) {
+        item.share = round(item.weight / totalWeight, 3);
+        item.contribution = round((item.weight / totalWeight) * item.score!, 2);
+        score += (item.weight / totalWeight) * item.score!;
+    }
+    score = round(score, 1);
+
+    return {
+        score,
+        calculation: `${scored.map(item => `${item.share} × ${item.score}`).join(' + ')} = ${score}`
+    };
+}
+
+/**
+ * Band of the scoring scale a score falls in: the highest band whose value it reaches
+ */
+export function scoreRating(score: number | null, scale: Record<string, number> = DEFAULT_SCORING_SCALE): string | null {
+    if (score === null) {
+        return null;
+    }
+    const bands = Object.entries(scale).sort(([, a], [, b]) => b - a);
+    return bands.find(([, value]) => score >= value)?.[0] ?? bands[bands.length - 1]?.[0] ?? null;
+}
+
+/**
+ * Recompute component and overall scores of a model analysis from its sub-component scores and the
+ * framework's declared weights. Component weights fall back to analysisMetadata.weights, then to 1.
+ */
+export function scoreFrameworkAnalysis(framework: FrameworkDefinition, components: ComponentAnalysis[]): FrameworkScoringResult {
+    const bands = framework.analysisMetadata?.scoringScale && Object.keys(framework.analysisMetadata.scoringScale).length > 0
+        ? framework.analysisMetadata.scoringScale
+        : DEFAULT_SCORING_SCALE;
+    const scale = { min: Math.min(...Object.values(bands)), max: Math.max(...Object.values(bands)), bands };
+    const clamp = (score: unknown): number | null =>
+        typeof score === 'number' && Number.isFinite(score) ? Math.min(scale.max, Math.max(scale.min, score)) : null;
+
+    const analyzed = new Map(components.map(component => [normalizeName(component.name), component]));
+    const unmatched = components
+        .filter(component => !framework.components.some(defined => normalizeName(defined.name) === normalizeName(component.name)))
+        .map(component => component.name);
+
+    // Nothing the model returned follows the definition (e.g. the offline mock provider): weigh what it scored equally
+    const weighted = unmatched.length < components.length || components.length === 0;
+    const layout: WeightLayout[] = weighted
+        ? framework.components.map(component => ({
+            name: component.name,
+            weight: component.weight ?? framework.analysisMetadata?.weights?.[component.name],
+            subComponents: component.subComponents
+        }))
+        : components.map(component => ({
+            name: component.name,
+            subComponents: component.subComponents.map(sub => ({ name: sub.name }))
+        }));
+
+    const componentBreakdowns: ComponentScoreBreakdown[] = layout.map(defined => {
+        const component = analyzed.get(normalizeName(defined.name));
+        const subScores = new Map((component?.subComponents || []).map(sub => [normalizeName(sub.name), sub.score]));
+        for (const sub of component?.subComponents || []) {
+            if (!defined.subComponents.some(definedSub => normalizeName(definedSub.name) === normalizeName(sub.name))) {
+                unmatched.push(`${defined.name} / ${sub.name}`);
+            }
+        }
+
+        const subComponents: WeightedScore[] = defined.subComponents.map(definedSub => ({
+            name: definedSub.name,
+            score: clamp(subScores.get(normalizeName(definedSub.name))),
+            weight: definedSub.weight ?? 1,
+            share: 0,
+            contribution: null
+        }));
+        const { score, calculation } = weightedAverage(subComponents);
+
+        return {
+            name: defined.name,
+            score,
+            weight: defined.weight ?? 1,
+            share: 0,
+            contribution: null,
+            calculation,
+            subComponents
+        };
+    });
+
+    const overall = weightedAverage(componentBreakdowns);
+    const totalPossibleScore = framework.analysisMetadata?.totalPossibleScore;
+    const scores = new Map(componentBreakdowns.map(breakdown => [normalizeName(breakdown.name), breakdown.score]));
+
+    return {
+        // The model's component scores are replaced; components outside the definition are kept unscored
+        components: components.map(component => ({
+            ...component,
+            overallScore: scores.get(normalizeName(component.name)) ?? null
+        })),
+        overallScore: overall.score,
+        breakdown: {
+            method: weighted ? 'weighted_average' : 'unweighted_average',
+            scale,
+            overallScore: overall.score,
+            rating: scoreRating(overall.score, bands),
+            calculation: overall.calculation,
+            totalPossibleScore,
+            points: totalPossibleScore && overall.score !== null ? round((overall.score / scale.max) * totalPossibleScore, 1) : null,
+            components: componentBreakdowns,
+            unmatched: weighted ? unmatched : []
+        }
+    };
+}
+
+/**
+ * Whether an analysis was actually scored: completed, with an overall score and at least one sub-component
+ * score. Failed analyses come back with null scores and must not be stored, reused or counted as scored.
+ */
+export function isScoredAnalysis(analysis: Pick<CallAnalysis, 'analysisStatus' | 'overallScore' | 'components'>): boolean {
+    return analysis.analysisStatus === 'completed' &&
+        analysis.overallScore !== null &&
+        (analysis.components || []).some(component => (component.subComponents || []).some(sub => typeof sub.score === 'number'));
+}
@@ -0,0 +1,258 @@
+// services/llm-provider.ts
+// Shared LLM provider layer used by the chat route and the MCP service.
+// LLM_PROVIDER selects the backend: "bedrock" (default), "anthropic" or "mock".
+import Anthropic from '@anthropic-ai/sdk';
+import AnthropicBedrock from '@anthropic-ai/bedrock-sdk';
+import fs from 'fs';
+import path from 'path';
+import type { Message, MessageCreateParamsNonStreaming } from '@anthropic-ai/sdk/resources/messages';
+
+export type LLMProviderName = 'bedrock' | 'anthropic' | 'mock';
+
+// Requests use the Anthropic Messages API shape whatever the backend
+export type LLMRequest = Omit<MessageCreateParamsNonStreaming, 'stream'>;
+
+export interface LLMRequestOptions {
+    timeoutMs?: number;
+    // Aborts the in-flight request (tool call cancelled)
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    // Model to use when ANTHROPIC_MODEL is not configured
+    readonly defaultModel?: string;
+    createMessage(request: LLMRequest, options?: LLMRequestOptions): Promise<Message>;
+    // Stream a message, reporting text deltas as they arrive, and resolve with the final message
+    streamMessage(request: LLMRequest, onText?: (delta: string) => void, options?: LLMRequestOptions): Promise<Message>;
+}
+
+// Used when ANTHROPIC_MODEL is unset, so an unconfigured deployment still resolves a model for every task
+const DEFAULT_BEDROCK_MODEL = 'us.anthropic.claude-3-5-sonnet-20241022-v2:0';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+
+/**
+ * Provider backed by an Anthropic SDK client - the Bedrock and first-party clients share the messages API
+ */
+class SDKProvider implements LLMProvider {
+    constructor(
+        readonly name: LLMProviderName,
+        private client: Pick<Anthropic, 'messages'>,
+        readonly defaultModel: string
+    ) {}
+
+    async createMessage(request: LLMRequest, options?: LLMRequestOptions): Promise<Message> {
+        return await this.client.messages.create({ ...request, stream: false }, { timeout: options?.timeoutMs, signal: options?.signal });
+    }
+
+    async streamMessage(request: LLMRequest, onText?: (delta: string) => void, options?: LLMRequestOptions): Promise<Message> {
+        const stream = this.client.messages.stream(request, { timeout: options?.timeoutMs, signal: options?.signal });
+
+        for await (const event of stream) {
+            if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                onText?.(event.delta.text);
+            }
+        }
+
+        return await stream.finalMessage();
+    }
+}
+
+function createBedrockProvider(): LLMProvider {
+    const awsRegion = process.env.AWS_REGION || 'us-east-1';
+
+    // Explicit keys when configured (local development), otherwise the default AWS credential chain (IAM roles)
+    const client = process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY
+        ? new AnthropicBedrock({
+            awsAccessKey: process.env.AWS_ACCESS_KEY_ID,
+            awsSecretKey: process.env.AWS_SECRET_ACCESS_KEY,
+            awsRegion
+        })
+        : new AnthropicBedrock({ awsRegion });
+
+    return new SDKProvider('bedrock', client as unknown as Pick<Anthropic, 'messages'>, DEFAULT_BEDROCK_MODEL);
+}
+
+function createAnthropicProvider(): LLMProvider {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic');
+    }
+    return new SDKProvider('anthropic', new Anthropic({ apiKey }), DEFAULT_ANTHROPIC_MODEL);
+}
+
+// === MOCK PROVIDER ===
+
+interface MockFixture {
+    name: string;
+    // Case-insensitive regex tested against the last user message (or the system prompt)
+    match: string;
+    in?: 'prompt' | 'system';
+    response: {
+        text?: string;
+        // String inputs may reference regex capture groups as $1..$9
+        toolUses?: { name: string; input: Record<string, any> }[];
+    };
+}
+
+/**
+ * Deterministic provider for offline development and tests. Replies come from the fixtures in
+ * services/resources/llm-fixtures.json (or LLM_MOCK_FIXTURES); the same request always gets the same reply.
+ */
+export class MockLLMProvider implements LLMProvider {
+    readonly name = 'mock' as const;
+    readonly defaultModel = 'mock';
+    private fixtures: MockFixture[] | null = null;
+
+    constructor(private fixturesPath: string = process.env.LLM_MOCK_FIXTURES || path.join(process.cwd(), 'services', 'resources', 'llm-fixtures.json')) {}
+
+    private loadFixtures(): MockFixture[] {
+        if (this.fixtures) {
+            return this.fixtures;
+        }
+
+        try {
+            const parsed = JSON.parse(fs.readFileSync(this.fixturesPath, 'utf8'));
+            this.fixtures = Array.isArray(parsed.fixtures) ? parsed.fixtures : [];
+            console.log(`🧪 Loaded ${this.fixtures!.length} mock LLM fixtures from ${this.fixturesPath}`);
+        } catch (error) {
+            console.warn(`⚠️ Could not load mock LLM fixtures from ${this.fixturesPath}:`, error instanceof Error ? error.message : 'Unknown error');
+            this.fixtures = [];
+        }
+        return this.fixtures!;
+    }
+
+    async createMessage(request: LLMRequest, options?: LLMRequestOptions): Promise<Message> {
+        if (options?.signal?.aborted) {
+            throw new Error('Request was aborted.');
+        }
+
+        const lastMessage = request.messages[request.messages.length - 1];
+        const blocks = typeof lastMessage?.content === 'string'
+            ? [{ type: 'text', text: lastMessage.content }]
+            : (lastMessage?.content || []) as any[];
+        const prompt = blocks.filter(block => block.type === 'text').map(block => block.text).join('\n');
+        const toolResults = blocks.filter(block => block.type === 'tool_result');
+        const system = typeof request.system === 'string'
+            ? request.system
+            : (request.system || []).map(block => block.text).join('\n');
+        const availableTools = new Set((request.tools || []).map(tool => tool.name));
+
+        const content: any[] = [];
+        for (const fixture of this.loadFixtures()) {
+            const match = new RegExp(fixture.match, 'i').exec(fixture.in === 'system' ? system : prompt);
+            if (!match) continue;
+
+            // Tool-calling fixtures only answer user questions, never tool results, so loops end
+            const toolUses = toolResults.length > 0
+                ? []
+                : (fixture.response.toolUses || []).filter(toolUse => availableTools.has(toolUse.name));
+            if (!fixture.response.text && toolUses.length === 0) continue;
+
+            if (fixture.response.text) {
+                content.push({ type: 'text', text: fixture.response.text, citations: null });
+            }
+            toolUses.forEach((toolUse, index) => {
+                content.push({
+                    type: 'tool_use',
+                    id: `toolu_mock_${request.messages.length}_${index}`,
+                    name: toolUse.name,
+                    input: this.fillCaptures(toolUse.input, match)
+                });
+            });
+            break;
+        }
+
+        if (content.length === 0) {
+            const text = toolResults.length > 0
+                ? `Mock response based on ${toolResults.length} tool result(s): ${String(typeof toolResults[0].content === 'string' ? toolResults[0].content : JSON.stringify(toolResults[0].content)).substring(0, 300)}`
+                : `Mock response to: "${prompt.substring(0, 200)}"`;
+            content.push({ type: 'text', text, citations: null });
+        }
+
+        const outputText = JSON.stringify(content);
+        return {
+            id: `msg_mock_${request.messages.length}`,
+            type: 'message',
+            role: 'assistant',
+            model: request.model,
+            content,
+            stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn',
+            stop_sequence: null,
+            usage: {
+                input_tokens: Math.ceil(JSON.stringify(request.messages).length / 4),
+                output_tokens: Math.ceil(outputText.length / 4),
+                cache_creation_input_tokens: null,
+                cache_read_input_tokens: null,
+                server_tool_use: null,
+                service_tier: null
+            }
+        } as Message;
+    }
+
+    async streamMessage(request: LLMRequest, onText?: (delta: string) => void, options?: LLMRequestOptions): Promise<Message> {
+        const message = await this.createMessage(request, options);
+
+        // Replay text word by word so streaming clients behave as they would against a real model
+        for (const block of message.content) {
+            if (block.type === 'text') {
+                for (const chunk of block.text.match(/\S+\s*|\s+/g) || []) {
+                    onText?.(chunk);
+                }
+            }
+        }
+        return message;
+    }
+
+    private fillCaptures(value: any, match: RegExpExecArray): any {
+        if (typeof value === 'string') {
+            return value.replace(/\$(\d)/g, (_, group) => (match[Number(group)] || '').trim());
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.fillCaptures(item, match));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.fillCaptures(item, match)]));
+        }
+        return value;
+    }
+}
+
+// === PROVIDER SELECTION ===
+
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+        case 'bedrock':
+            return createBedrockProvider();
+        case 'anthropic':
+            return createAnthropicProvider();
+        case 'mock':
+            return new MockLLMProvider();
+        default:
+            throw new Error(`Unknown LLM provider: ${name}. Use bedrock, anthropic or mock.`);
+    }
+}
+
+let sharedProvider: LLMProvider | null = null;
+
+/**
+ * The process-wide provider selected by LLM_PROVIDER
+ */
+export function getLLMProvider(): LLMProvider {
+    if (!sharedProvider) {
+        sharedProvider = createLLMProvider((process.env.LLM_PROVIDER || 'bedrock') as LLMProviderName);
+        console.log(`🤖 LLM provider: ${sharedProvider.name}`);
+    }
+    return sharedProvider;
+}
+
+/**
+ * Model for a request: ANTHROPIC_MODEL, or the provider's default when it has one
+ */
+export function resolveModel(provider: LLMProvider = getLLMProvider()): string {
+    const model = process.env.ANTHROPIC_MODEL || provider.defaultModel;
+    if (!model) {
+        throw new Error('Anthropic model is not defined in environment variables.');
+    }
+    return model;
+}
@@ -0,0 +1,190 @@
+// services/mcp-prompts.ts
+// Parameterized MCP prompts (prompts/list, prompts/get) that start guided workflows in MCP hosts.
+// Each prompt is the system prompt and analysis prompt the framework analyzer renders for the Gong call(s),
+// followed by the framework resources it relies on and a short template for the prompt's own arguments.
+import { PromptManager } from './prompt-manager';
+import { ResourceManager } from './resource-manager';
+import { getFrameworkDefinition, getValidFrameworks, validateFrameworkName } from './framework-definitions';
+import type { FrameworkAnalyzer } from './framework-analyzer';
+
+interface MCPPromptArgument {
+    name: string;
+    description: string;
+    required?: boolean;
+}
+
+interface MCPPrompt {
+    name: string;
+    title: string;
+    description: string;
+    arguments: MCPPromptArgument[];
+}
+
+type MCPPromptMessage = {
+    role: 'user' | 'assistant';
+    content:
+        | { type: 'text'; text: string }
+        | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+};
+
+type CallAnalysisPrompts = Awaited<ReturnType<FrameworkAnalyzer['renderCallAnalysisPrompts']>>;
+
+interface MCPPromptDefinition extends MCPPrompt {
+    // Analyzer template each call is rendered with
+    analysisTemplate: 'enhanced-analysis' | 'basic-analysis';
+    // Argument holding the Gong call ID, or comma-separated call IDs
+    callArgument: 'callId' | 'callIds';
+    // Framework files attached after the analysis prompts, e.g. 'planning_checklist.md'
+    frameworkResources: string[];
+    // Instructions for the prompt's own arguments, after everything else
+    wrapper?: {
+        template: string;
+        buildValues: (args: Record<string, string>, calls: CallAnalysisPrompts[]) => Record<string, string>;
+    };
+}
+
+// The description lists the frameworks available when prompts are listed
+const FRAMEWORK_ARGUMENT: MCPPromptArgument = {
+    name: 'framework',
+    description: 'Framework to use',
+    required: true
+};
+
+// Each call brings its whole transcript into the prompt
+const MAX_PROMPT_CALLS = 5;
+
+const PROMPTS: MCPPromptDefinition[] = [
+    {
+        name: 'analyze_call',
+        title: 'Analyze a call against a framework',
+        description: 'Score a Gong call against a sales framework with the same instructions the framework analysis uses',
+        arguments: [
+            { name: 'callId', description: 'Gong call ID', required: true },
+            FRAMEWORK_ARGUMENT
+        ],
+        analysisTemplate: 'enhanced-analysis',
+        callArgument: 'callId',
+        frameworkResources: []
+    },
+    {
+        name: 'prepare_follow_up_call',
+        title: 'Prepare a follow-up call',
+        description: 'Prepare the follow-up to a Gong call from its framework analysis and the planning checklist',
+        arguments: [
+            { name: 'callId', description: 'Gong call ID of the previous call', required: true },
+            FRAMEWORK_ARGUMENT,
+            { name: 'focus', description: 'Optional area to focus the next call on, e.g. "pricing" or "technical validation"' }
+        ],
+        analysisTemplate: 'enhanced-analysis',
+        callArgument: 'callId',
+        frameworkResources: ['planning_checklist.md'],
+        wrapper: {
+            template: 'mcp-prepare-follow-up',
+            buildValues: (args, [call]) => ({
+                callTitle: call.callDetails.title || args.callId,
+                focusInstruction: args.focus ? ` Focus the next call on **${args.focus}**.` : ''
+            })
+        }
+    },
+    {
+        name: 'coach_rep',
+        title: 'Coach a rep on framework weaknesses',
+        description: "Build a coaching plan from a rep's weakest framework components across their Gong calls",
+        arguments: [
+            FRAMEWORK_ARGUMENT,
+            { name: 'callIds', description: `Comma-separated Gong call IDs from the rep (up to ${MAX_PROMPT_CALLS})`, required: true },
+            { name: 'repName', description: 'Optional rep name to address the coaching plan to' }
+        ],
+        analysisTemplate: 'basic-analysis',
+        callArgument: 'callIds',
+        frameworkResources: ['methodology.md', 'scoring_rubric.md'],
+        wrapper: {
+            template: 'mcp-coach-rep',
+            buildValues: (args, calls) => ({
+                callList: calls.map(call => `**${call.callDetails.title || call.callDetails.callId}**`).join(', '),
+                repInstruction: args.repName ? ` The plan is for **${args.repName}**.` : ''
+            })
+        }
+    }
+];
+
+export class MCPPromptCatalog {
+    constructor(
+        private promptManager: PromptManager,
+        private resourceManager: ResourceManager,
+        private analyzer: Pick<FrameworkAnalyzer, 'renderCallAnalysisPrompts'>
+    ) {}
+
+    listPrompts(): MCPPrompt[] {
+        const frameworkArgument = { ...FRAMEWORK_ARGUMENT, description: `Framework to use: ${getValidFrameworks().join(', ')}` };
+        return PROMPTS.map(({ name, title, description, arguments: args }) => ({
+            name,
+            title,
+            description,
+            arguments: args.map(argument => argument === FRAMEWORK_ARGUMENT ? frameworkArgument : argument)
+        }));
+    }
+
+    /**
+     * Render a prompt. Throws when the prompt is unknown or its arguments are invalid.
+     */
+    async getPrompt(name: string, args: Record<string, string> = {}): Promise<{ description: string; messages: MCPPromptMessage[] }> {
+        const prompt = PROMPTS.find(candidate => candidate.name === name);
+        if (!prompt) {
+            throw new Error(`Unknown prompt: ${name}`);
+        }
+
+        const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+        if (missing.length > 0) {
+            throw new Error(`Missing required arguments: ${missing.map(argument => argument.name).join(', ')}`);
+        }
+
+        const frameworkId = args.framework.trim();
+        if (!validateFrameworkName(frameworkId)) {
+            throw new Error(`Unknown framework: ${frameworkId}. Use one of ${getValidFrameworks().join(', ')}`);
+        }
+        const framework = await getFrameworkDefinition(frameworkId);
+        const frameworkName = framework.displayName || framework.name;
+
+        const callIds = args[prompt.callArgument].split(',').map(id => id.trim()).filter(Boolean);
+        if (callIds.length === 0) {
+            throw new Error(`Missing required arguments: ${prompt.callArgument}`);
+        }
+        if (callIds.length > MAX_PROMPT_CALLS) {
+            throw new Error(`At most ${MAX_PROMPT_CALLS} calls can be included, got ${callIds.length}`);
+        }
+
+        // The system prompt once, then each call's analysis prompt, exactly as the analyzer renders them
+        const calls: CallAnalysisPrompts[] = [];
+        for (const callId of callIds) {
+            calls.push(await this.analyzer.renderCallAnalysisPrompts(callId, frameworkId, prompt.analysisTemplate));
+        }
+        const messages: MCPPromptMessage[] = [
+            { role: 'user', content: { type: 'text', text: calls[0].systemPrompt } },
+            ...calls.map(call => ({ role: 'user' as const, content: { type: 'text' as const, text: call.analysisPrompt } }))
+        ];
+
+        for (const file of prompt.frameworkResources) {
+            const contents = await this.resourceManager.readMCPResource(`/frameworks/${frameworkId}/${file}`);
+            for (const resource of contents || []) {
+                messages.push({ role: 'user', content: { type: 'resource', resource } });
+            }
+        }
+
+        if (prompt.wrapper) {
+            // Only declared arguments reach the template: other keys could fill its placeholders
+            const declared = Object.fromEntries(prompt.arguments.map(argument => [argument.name, args[argument.name]]));
+            const text = await this.promptManager.renderWithValues(prompt.wrapper.template, {
+                ...declared,
+                frameworkName,
+                ...prompt.wrapper.buildValues(args, calls)
+            });
+            messages.push({ role: 'user', content: { type: 'text', text } });
+        }
+
+        return {
+            description: `${prompt.title} (${frameworkName})`,
+            messages
+        };
+    }
+}
@@ -0,0 +1,194 @@
+// services/mcp-session-manager.ts
+// Sessions for the MCP Streamable HTTP transport: IDs issued on initialize (Mcp-Session-Id),
+// protocol version negotiation, and the server-to-client SSE streams opened with GET /mcp.
+import crypto from 'crypto';
+import type { Response } from 'express';
+
+// Newest first - the first entry is offered when the client asks for a version we don't support
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Comment frames keep idle SSE streams open through the load balancer's idle timeout
+const SSE_KEEPALIVE_INTERVAL_MS = 25000;
+
+export interface MCPSession {
+    id: string;
+    protocolVersion: string;
+    clientInfo?: { name: string; version: string };
+    clientCapabilities: Record<string, any>;
+    // Set once the client sends notifications/initialized
+    initialized: boolean;
+    createdAt: number;
+    lastActivity: number;
+    streams: Set<Response>;
+    nextEventId: number;
+    // Requests still running, so notifications/cancelled can abort them
+    inFlight: Map<string | number, AbortController>;
+}
+
+export class MCPSessionManager {
+    private sessions: Map<string, MCPSession> = new Map();
+    private idleTimeoutMs: number;
+
+    constructor(idleTimeoutMs?: number) {
+        const configured = parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || '', 10);
+        this.idleTimeoutMs = idleTimeoutMs ?? (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SESSION_IDLE_TIMEOUT_MS);
+
+        const sweep = setInterval(() => this.expireIdleSessions(), Math.min(this.idleTimeoutMs, 60000));
+        sweep.unref();
+    }
+
+    /**
+     * The version to use for a session: the client's requested version when supported, otherwise our latest
+     */
+    negotiateProtocolVersion(requested?: string): string {
+        return requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+    }
+
+    isSupportedProtocolVersion(version: string): boolean {
+        return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+    }
+
+    /**
+     * Start a session for an initialize request
+     */
+    create(params: { protocolVersion?: string; clientInfo?: { name: string; version: string }; capabilities?: Record<string, any> } = {}): MCPSession {
+        const now = Date.now();
+        const session: MCPSession = {
+            id: crypto.randomUUID(),
+            protocolVersion: this.negotiateProtocolVersion(params.protocolVersion),
+            clientInfo: params.clientInfo,
+            clientCapabilities: params.capabilities || {},
+            initialized: false,
+            createdAt: now,
+            lastActivity: now,
+            streams: new Set(),
+            nextEventId: 1,
+            inFlight: new Map()
+        };
+        this.sessions.set(session.id, session);
+
+        console.log(`🔌 MCP session ${session.id} started (protocol ${session.protocolVersion}, client ${params.clientInfo?.name || 'unknown'})`);
+        return session;
+    }
+
+    /**
+     * Look up a session and mark it active
+     */
+    get(id: string): MCPSession | undefined {
+        const session = this.sessions.get(id);
+        if (session) {
+            session.lastActivity = Date.now();
+        }
+        return session;
+    }
+
+    /**
+     * End a session, closing any SSE streams it has open
+     */
+    delete(id: string): boolean {
+        const session = this.sessions.get(id);
+        if (!session) {
+            return false;
+        }
+
+        for (const controller of session.inFlight.values()) {
+            controller.abort('Session ended');
+        }
+        for (const stream of session.streams) {
+            stream.end();
+        }
+        this.sessions.delete(id);
+
+        console.log(`🔌 MCP session ${id} ended`);
+        return true;
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Turn a GET response into an SSE stream for server-initiated messages on this session
+     */
+    openStream(session: MCPSession, res: Response) {
+        this.writeStreamHeaders(session, res);
+        res.write(': connected\n\n');
+
+        session.streams.add(res);
+
+        const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_INTERVAL_MS);
+        res.on('close', () => {
+            clearInterval(keepalive);
+            session.streams.delete(res);
+            session.lastActivity = Date.now();
+        });
+    }
+
+    /**
+     * Send a JSON-RPC message to the client over the session's open SSE streams.
+     * Returns false when the client has no stream open to receive it.
+     */
+    send(sessionId: string, message: Record<string, any>): boolean {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.streams.size === 0) {
+            return false;
+        }
+
+        const frame = this.formatEvent(session, message);
+        for (const stream of session.streams) {
+            stream.write(frame);
+        }
+        return true;
+    }
+
+    /**
+     * Send a JSON-RPC notification to every session with an open SSE stream
+     */
+    broadcast(message: Record<string, any>) {
+        for (const session of this.sessions.values()) {
+            if (session.initialized) {
+                this.send(session.id, message);
+            }
+        }
+    }
+
+    /**
+     * Answer a POST with an SSE stream, so notifications such as progress can precede the response.
+     * Returns a writer for JSON-RPC messages; the caller ends the response after the last one.
+     */
+    startResponseStream(session: MCPSession, res: Response): (message: Record<string, any>) => void {
+        this.writeStreamHeaders(session, res);
+        return message => {
+            if (!res.writableEnded) {
+                res.write(this.formatEvent(session, message));
+            }
+        };
+    }
+
+    private writeStreamHeaders(session: MCPSession, res: Response) {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('Mcp-Session-Id', session.id);
+        res.flushHeaders();
+    }
+
+    private formatEvent(session: MCPSession, message: Record<string, any>): string {
+        return `id: ${session.nextEventId++}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`;
+    }
+
+    private expireIdleSessions() {
+        const cutoff = Date.now() - this.idleTimeoutMs;
+        for (const session of this.sessions.values()) {
+            // Sessions listening on a stream are never idle
+            if (session.streams.size === 0 && session.lastActivity < cutoff) {
+                console.log(`⏱️ MCP session ${session.id} expired after inactivity`);
+                this.delete(session.id);
+            }
+        }
+    }
+}
@@ -279,6 +279,29 @@ export class MiroClient {
     }
   }
 
+  /**
+   * Template recommendations for free-form content (e.g. meeting notes) that does not live on a board
+   */
+  recommendTemplatesForContent(content: string[], maxRecommendations: number = 5): {
+    analysis: {
+      detectedKeywords: string[];
+      identifiedCategories: string[];
+      context: string;
+    };
+    recommendations: Array<{
+      name: string;
+      url: string;
+      category: string;
+      relevanceScore: number;
+    }>;
+  } {
+    const analysis = this.analyzeContentForTemplates(content);
+    return {
+      analysis,
+      recommendations: this.generateTemplateRecommendations(analysis, maxRecommendations)
+    };
+  }
+
   /**
    * Analyzes content for template matching keywords and categories
    */
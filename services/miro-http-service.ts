@@ -4,13 +4,27 @@ import cors from 'cors';
 import axios from 'axios';
 import dotenv from 'dotenv';
 import { MiroClient } from './miro-client';
-import AnthropicBedrock from '@anthropic-ai/bedrock-sdk'
-import { FrameworkAnalyzer, safeFrameworkAnalysis, FrameworkResources } from './framework-analyzer';
+import { LLMProvider, getLLMProvider } from './llm-provider';
+import { ModelOverrides, getModelOverrides, parseModelOverrides, taskRequest, withModelOverrides } from './model-routing';
+import { FrameworkAnalyzer, FrameworkAnalysisValidator, safeFrameworkAnalysis, FrameworkResources } from './framework-analyzer';
+import { AnalysisJob, AnalysisJobQueue, isTerminalJobStatus } from './analysis-jobs';
+import type { CallRep } from './framework-definitions';
+import { AnalysisStore, getAnalysisStore } from './analysis-store';
+import { buildAccountRollup } from './account-rollup';
+import { getFrameworkRegistry } from './framework-registry';
+import { FrameworkEditor, FrameworkEditResult } from './framework-editor';
+import { validateFrameworkDefinition } from './framework-schema';
+import { MAX_CONSISTENCY_SAMPLES } from './score-consistency';
+import { runCalibration } from './calibration';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { ResourceManager } from './resource-manager';
 import { validateApiKey } from './middleware/auth.middleware';
+import { MCPSession, MCPSessionManager } from './mcp-session-manager';
+import { MCPPromptCatalog } from './mcp-prompts';
+import { ToolExecutionContext, throwIfCancelled } from './tool-execution';
+import { PromptManager } from './prompt-manager';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,16 +52,38 @@ interface MCPResource {
 // Gong API Configuration
 const GONG_API_BASE = 'https://us-45594.api.gong.io/v2';
 
+// Account rollups with more calls than this are scored as a background analysis job
+const SYNC_ROLLUP_CALLS = 10;
+
+// Shared mailbox providers never identify an account, so they are not inferred as account domains
+const PUBLIC_EMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com']);
+
+// Stand-in call for framework editor previews that don't name a Gong call
+const PREVIEW_CALL = {
+    callId: 'preview',
+    callUrl: 'https://app.gong.io/call?id=preview',
+    title: 'Sample call',
+    date: 'Call date',
+    duration: '30m',
+    participants: ['Sales rep', 'Customer'],
+    brief: '',
+    hasTranscript: false
+};
+
 class MiroHTTPService {
     private app: express.Application;
     private miroClient?: MiroClient;
     private gongAuth?: string;
-    private anthropicClient?: AnthropicBedrock;
+    private llmProvider?: LLMProvider;
     private frameworkAnalyzer?: FrameworkAnalyzer;
     private frameworksPath: string;
     private resourceManager?: ResourceManager;
     private resourceCache: Map<string, FrameworkResources> = new Map();
-    private mcpInitialized: Set<string> = new Set(); // Track initialized MCP sessions
+    private mcpPrompts?: MCPPromptCatalog;
+    private mcpSessions: MCPSessionManager = new MCPSessionManager(); // Streamable HTTP transport sessions
+    private analysisJobs?: AnalysisJobQueue; // Background framework analyses
+    private analysisStore: AnalysisStore | null = getAnalysisStore(); // Stored analyses (DATABASE_URL)
+    private frameworkEditor: FrameworkEditor = new FrameworkEditor(); // Versioned edits from the admin framework editor
 
 
     constructor() {
@@ -58,6 +94,15 @@ class MiroHTTPService {
         this.frameworksPath = path.join(__dirname, 'frameworks');
         this.resourceManager = new ResourceManager();
 
+        // Pick up added and edited frameworks without a restart; tools, resources and prompts all list them
+        const frameworkRegistry = getFrameworkRegistry();
+        frameworkRegistry.watch();
+        frameworkRegistry.on('change', () => {
+            for (const method of ['notifications/tools/list_changed', 'notifications/resources/list_changed', 'notifications/prompts/list_changed']) {
+                this.mcpSessions.broadcast({ jsonrpc: '2.0', method });
+            }
+        });
+
         // Debug environment variables
         console.log("Environment variables check:");
         console.log("MIRO_ACCESS_TOKEN exists:", !!process.env.MIRO_ACCESS_TOKEN);
@@ -78,38 +123,34 @@ class MiroHTTPService {
         }
 
 
-        // Initialize Anthropic client based on environment
-        if (process.env.NODE_ENV === 'development') {
-            // Development: Use explicit AWS credentials
-            const anthropicKey = process.env.ANTHROPIC_API_KEY;
-            if (anthropicKey) {
-                this.anthropicClient = new AnthropicBedrock({
-                    awsAccessKey: process.env.AWS_ACCESS_KEY_ID,
-                    awsSecretKey: process.env.AWS_SECRET_ACCESS_KEY,
-                    awsRegion: process.env.AWS_REGION || 'us-east-1'
-                });
-                console.log("✅ Anthropic API integration enabled (local dev)");
-            } else {
-                console.log("⚠️ No ANTHROPIC_API_KEY found for development mode");
-            }
-        } else {
-            // Production: Use environment-based authentication (IAM roles, etc.)
-            this.anthropicClient = new AnthropicBedrock({
-                awsRegion: process.env.AWS_REGION || 'us-east-1'
-            });
-            console.log("Anthropic Bedrock integration enabled (production)");
+        // Initialize the shared LLM provider (LLM_PROVIDER=bedrock|anthropic|mock)
+        try {
+            this.llmProvider = getLLMProvider();
+            console.log(`✅ LLM integration enabled (${this.llmProvider.name})`);
+        } catch (error) {
+            console.log("⚠️ LLM provider unavailable:", error instanceof Error ? error.message : 'Unknown error');
         }
 
         // Initialize framework analyzer if client is available
-        if (this.anthropicClient) {
+        if (this.llmProvider) {
             this.frameworkAnalyzer = new FrameworkAnalyzer(
-                this.anthropicClient, 
+                this.llmProvider, 
                 this,  // gongService reference
-                this.frameworksPath  // NEW: Pass frameworks path for resource loading
+                this.frameworksPath,  // NEW: Pass frameworks path for resource loading
+                this.analysisStore  // Stored analyses are reused unless forceRescore is set
             );
             console.log("✅ Framework Analyzer initialized");
+
+            // MCP prompts are the analyzer's own prompts for a Gong call
+            this.mcpPrompts = new MCPPromptCatalog(new PromptManager(), this.resourceManager!, this.frameworkAnalyzer);
+
+            const analyzer = this.frameworkAnalyzer;
+            this.analysisJobs = new AnalysisJobQueue((job, context) => withModelOverrides(
+                job.modelOverrides,
+                () => analyzer.analyzeCallsFramework({ ...job.args, resumeFrom: job.partialResults }, context)
+            ));
         } else {
-            console.log("❌ No Anthropic client available - framework analysis disabled");
+            console.log("❌ No LLM provider available - framework analysis disabled");
         }
 
         // Load framework definitions
@@ -187,159 +228,370 @@ class MiroHTTPService {
     }
 
     private setupMiddleware() {
-        this.app.use(cors());
+        this.app.use(cors({ exposedHeaders: ['X-Manifest-Version', 'Mcp-Session-Id'] }));
         this.app.use(express.json());
+
+        // Advertise the resource manifest version so clients know when to drop cached listings
+        this.app.use(async (req, res, next) => {
+            try {
+                const manifestInfo = await this.resourceManager?.getManifestInfo();
+                if (manifestInfo) {
+                    res.setHeader('X-Manifest-Version', manifestInfo.version);
+                }
+            } catch (error) {
+                console.warn('⚠️ Could not read manifest version:', error instanceof Error ? error.message : 'Unknown error');
+            }
+            next();
+        });
     }
 
     /**
-     * Check if a request body is a JSON-RPC (MCP protocol) request
+     * Check if a value is a JSON-RPC 2.0 message (request, notification or response)
      */
-    private isMCPRequest(body: any): boolean {
+    private isJSONRPCMessage(message: any): boolean {
         return (
-            body &&
-            typeof body === 'object' &&
-            body.jsonrpc === '2.0' &&
-            typeof body.method === 'string' &&
-            body.id !== undefined
+            message &&
+            typeof message === 'object' &&
+            message.jsonrpc === '2.0' &&
+            (typeof message.method === 'string' || 'result' in message || 'error' in message)
         );
     }
 
     /**
-     * Handle MCP protocol requests (JSON-RPC 2.0)
+     * Check if a request body is an MCP protocol message or batch of messages
+     */
+    private isMCPRequest(body: any): boolean {
+        const messages = Array.isArray(body) ? body : [body];
+        return messages.length > 0 && messages.every(message => this.isJSONRPCMessage(message));
+    }
+
+    private jsonRpcError(id: any, code: number, message: string) {
+        return { jsonrpc: '2.0', id: id ?? null, error: { code, message } };
+    }
+
+    /**
+     * Resolve the session for a non-initialize request, answering with the transport error when there isn't one.
+     * Missing Mcp-Session-Id is a bad request; an unknown or ended session is 404 so the client re-initializes.
+     */
+    private requireMCPSession(req: express.Request, res: express.Response): MCPSession | null {
+        const sessionId = req.header('Mcp-Session-Id');
+        if (!sessionId) {
+            res.status(400).json(this.jsonRpcError(null, -32000, 'Bad Request: Mcp-Session-Id header is required'));
+            return null;
+        }
+
+        const session = this.mcpSessions.get(sessionId);
+        if (!session) {
+            res.status(404).json(this.jsonRpcError(null, -32001, 'Session not found. Call initialize to start a new session.'));
+            return null;
+        }
+
+        const protocolVersion = req.header('MCP-Protocol-Version');
+        if (protocolVersion && !this.mcpSessions.isSupportedProtocolVersion(protocolVersion)) {
+            res.status(400).json(this.jsonRpcError(null, -32000, `Bad Request: Unsupported protocol version ${protocolVersion}`));
+            return null;
+        }
+
+        return session;
+    }
+
+    /**
+     * Handle a POST to the MCP endpoint (Streamable HTTP transport).
+     * The body is a JSON-RPC message or batch; notifications and responses are acknowledged with 202.
+     * Tool calls are answered over SSE when the client accepts it, so progress notifications come first;
+     * everything else is answered with application/json.
      */
     private async handleMCPRequest(req: express.Request, res: express.Response) {
-        const request = req.body;
-        const sessionId = req.headers['x-mcp-session-id'] as string || 'default';
+        const body = req.body;
+        const messages: any[] = Array.isArray(body) ? body : [body];
+
+        // initialize starts a new session and must be sent on its own
+        const initialize = messages.find(message => message.method === 'initialize');
+        if (initialize) {
+            if (messages.length > 1) {
+                return res.status(400).json(this.jsonRpcError(initialize.id, -32600, 'initialize must not be part of a batch'));
+            }
 
+            const session = this.mcpSessions.create(initialize.params);
+            res.setHeader('Mcp-Session-Id', session.id);
+            return res.json({
+                jsonrpc: '2.0',
+                id: initialize.id,
+                result: {
+                    protocolVersion: session.protocolVersion,
+                    capabilities: {
+                        tools: { listChanged: true },
+                        resources: { listChanged: true },
+                        prompts: { listChanged: true },
+                        experimental: {
+                            progressNotifications: true
+                        }
+                    },
+                    serverInfo: {
+                        name: 'miro-mcp-http',
+                        version: '1.0.0'
+                    }
+                }
+            });
+        }
+
+        const session = this.requireMCPSession(req, res);
+        if (!session) {
+            return;
+        }
+
+        const requests = messages.filter(message => typeof message.method === 'string' && message.id !== undefined);
+        for (const notification of messages.filter(message => typeof message.method === 'string' && message.id === undefined)) {
+            this.handleMCPNotification(session, notification);
+        }
+
+        // Only notifications or responses: nothing to answer
+        if (requests.length === 0) {
+            return res.status(202).end();
+        }
+
+        // A client that drops the connection has given up on these requests
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                for (const request of requests) {
+                    session.inFlight.get(request.id)?.abort('Client disconnected');
+                }
+            }
+        });
+
+        const streamResponse = requests.some(request => request.method === 'tools/call') && !!req.accepts('text/event-stream');
+        if (streamResponse) {
+            const write = this.mcpSessions.startResponseStream(session, res);
+            const responses = await Promise.all(requests.map(request => this.dispatchMCPRequest(session, request, req, write)));
+            responses.forEach(write);
+            return res.end();
+        }
+
+        // Without a response stream, notifications go to the session's GET stream if it has one
+        const notify = (message: Record<string, any>) => this.mcpSessions.send(session.id, message);
+        const responses = await Promise.all(requests.map(request => this.dispatchMCPRequest(session, request, req, notify)));
+        res.json(Array.isArray(body) ? responses : responses[0]);
+    }
+
+    private handleMCPNotification(session: MCPSession, notification: any) {
+        switch (notification.method) {
+            case 'notifications/initialized':
+                session.initialized = true;
+                break;
+
+            case 'notifications/cancelled': {
+                const { requestId, reason } = notification.params || {};
+                const controller = session.inFlight.get(requestId);
+                if (controller) {
+                    console.log(`🛑 MCP request ${requestId} cancelled by client${reason ? `: ${reason}` : ''}`);
+                    controller.abort(reason || 'Cancelled by client');
+                }
+                break;
+            }
+
+            default:
+                console.log(`📨 Ignoring MCP notification ${notification.method} on session ${session.id}`);
+        }
+    }
+
+    /**
+     * Answer a single JSON-RPC request within a session. `notify` delivers notifications about the request.
+     */
+    private async dispatchMCPRequest(
+        session: MCPSession,
+        request: any,
+        req: express.Request,
+        notify: (message: Record<string, any>) => void
+    ): Promise<any> {
         try {
             switch (request.method) {
-                case 'initialize':
-                    this.mcpInitialized.add(sessionId);
-                    res.json({
+                case 'tools/list':
+                    return {
                         jsonrpc: '2.0',
                         id: request.id,
                         result: {
-                            protocolVersion: '2024-11-05',
-                            capabilities: {
-                                tools: {},
-                                experimental: {
-                                    progressNotifications: true
-                                }
-                            },
-                            serverInfo: {
-                                name: 'miro-mcp-http',
-                                version: '1.0.0'
+                            tools: await this.getMCPTools()
+                        }
+                    };
+
+                case 'tools/call': {
+                    const { name, arguments: args } = request.params || {};
+                    if (!name) {
+                        return this.jsonRpcError(request.id, -32602, 'Tool name is required');
+                    }
+
+                    // Progress is only reported when the client asked for it with a progress token
+                    const progressToken = request.params?._meta?.progressToken;
+                    const controller = new AbortController();
+                    const context: ToolExecutionContext = {
+                        signal: controller.signal,
+                        reportProgress: progressToken === undefined ? undefined : (progress, total, message) => notify({
+                            jsonrpc: '2.0',
+                            method: 'notifications/progress',
+                            params: { progressToken, progress, total, ...(message ? { message } : {}) }
+                        })
+                    };
+                    session.inFlight.set(request.id, controller);
+
+                    try {
+                        const result = await withModelOverrides(this.readModelOverrides(req), () => this.executeTool(name, args, context));
+                        return {
+                            jsonrpc: '2.0',
+                            id: request.id,
+                            result: {
+                                content: [
+                                    {
+                                        type: 'text',
+                                        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+                                    }
+                                ]
                             }
+                        };
+                    } catch (error) {
+                        if (controller.signal.aborted) {
+                            return this.jsonRpcError(request.id, -32800, 'Request cancelled');
                         }
-                    });
-                    break;
 
-                case 'tools/list':
-                    if (!this.mcpInitialized.has(sessionId)) {
-                        return res.status(400).json({
+                        // Tool failures are results the model can see, not protocol errors
+                        return {
                             jsonrpc: '2.0',
                             id: request.id,
-                            error: {
-                                code: -32000,
-                                message: 'Server not initialized. Call initialize first.'
+                            result: {
+                                content: [
+                                    {
+                                        type: 'text',
+                                        text: error instanceof Error ? error.message : 'Tool execution failed'
+                                    }
+                                ],
+                                isError: true
                             }
-                        });
+                        };
+                    } finally {
+                        session.inFlight.delete(request.id);
                     }
+                }
 
-                    const tools = await this.getMCPTools();
-                    res.json({
+                case 'resources/list':
+                    return {
                         jsonrpc: '2.0',
                         id: request.id,
                         result: {
-                            tools: tools
+                            resources: await this.resourceManager?.listMCPResources() || []
                         }
-                    });
-                    break;
+                    };
 
-                case 'tools/call':
-                    if (!this.mcpInitialized.has(sessionId)) {
-                        return res.status(400).json({
-                            jsonrpc: '2.0',
-                            id: request.id,
-                            error: {
-                                code: -32000,
-                                message: 'Server not initialized. Call initialize first.'
-                            }
-                        });
+                case 'resources/templates/list':
+                    return {
+                        jsonrpc: '2.0',
+                        id: request.id,
+                        result: {
+                            resourceTemplates: this.resourceManager?.getMCPResourceTemplates() || []
+                        }
+                    };
+
+                case 'resources/read': {
+                    const uri = request.params?.uri;
+                    if (typeof uri !== 'string' || !uri) {
+                        return this.jsonRpcError(request.id, -32602, 'Resource uri is required');
                     }
 
-                    const { name, arguments: args } = request.params;
-                    if (!name) {
-                        return res.status(400).json({
+                    const contents = await this.resourceManager?.readMCPResource(uri);
+                    if (!contents) {
+                        return {
                             jsonrpc: '2.0',
                             id: request.id,
-                            error: {
-                                code: -32602,
-                                message: 'Tool name is required'
-                            }
-                        });
+                            error: { code: -32002, message: 'Resource not found', data: { uri } }
+                        };
+                    }
+
+                    console.log(`📖 MCP resources/read ${uri} (${contents.length} item(s))`);
+                    return {
+                        jsonrpc: '2.0',
+                        id: request.id,
+                        result: { contents }
+                    };
+                }
+
+                case 'prompts/list':
+                    return {
+                        jsonrpc: '2.0',
+                        id: request.id,
+                        result: {
+                            prompts: this.mcpPrompts?.listPrompts() || []
+                        }
+                    };
+
+                case 'prompts/get': {
+                    const { name, arguments: args } = request.params || {};
+                    if (!this.mcpPrompts || typeof name !== 'string') {
+                        return this.jsonRpcError(request.id, -32602, 'Prompt name is required');
                     }
 
                     try {
-                        const result = await this.executeTool(name, args);
-                        res.json({
+                        return {
                             jsonrpc: '2.0',
                             id: request.id,
-                            result: {
-                                content: [
-                                    {
-                                        type: 'text',
-                                        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
-                                    }
-                                ]
-                            }
-                        });
+                            result: await this.mcpPrompts.getPrompt(name, args)
+                        };
                     } catch (error) {
-                        res.status(500).json({
-                            jsonrpc: '2.0',
-                            id: request.id,
-                            error: {
-                                code: -32603,
-                                message: error instanceof Error ? error.message : 'Tool execution failed'
-                            }
-                        });
+                        // Unknown prompts and bad arguments are invalid params
+                        return this.jsonRpcError(request.id, -32602, error instanceof Error ? error.message : 'Invalid prompt request');
                     }
-                    break;
+                }
 
                 case 'ping':
-                    res.json({
+                    return {
                         jsonrpc: '2.0',
                         id: request.id,
                         result: {}
-                    });
-                    break;
+                    };
 
                 default:
-                    res.status(400).json({
-                        jsonrpc: '2.0',
-                        id: request.id,
-                        error: {
-                            code: -32601,
-                            message: `Unknown method: ${request.method}`
-                        }
-                    });
+                    return this.jsonRpcError(request.id, -32601, `Unknown method: ${request.method}`);
             }
         } catch (error) {
-            res.status(500).json({
-                jsonrpc: '2.0',
-                id: request.id,
-                error: {
-                    code: -32603,
-                    message: error instanceof Error ? error.message : 'Internal error'
-                }
-            });
+            return this.jsonRpcError(request.id, -32603, error instanceof Error ? error.message : 'Internal error');
+        }
+    }
+
+    /**
+     * Open the server-to-client SSE stream for a session (GET on the MCP endpoint)
+     */
+    private handleMCPStream(req: express.Request, res: express.Response) {
+        if (!req.accepts('text/event-stream')) {
+            return res.status(406).json(this.jsonRpcError(null, -32000, 'Not Acceptable: client must accept text/event-stream'));
+        }
+
+        const session = this.requireMCPSession(req, res);
+        if (!session) {
+            return;
         }
+
+        this.mcpSessions.openStream(session, res);
+    }
+
+    /**
+     * End a session at the client's request (DELETE on the MCP endpoint)
+     */
+    private handleMCPSessionDelete(req: express.Request, res: express.Response) {
+        const session = this.requireMCPSession(req, res);
+        if (!session) {
+            return;
+        }
+
+        this.mcpSessions.delete(session.id);
+        res.status(204).end();
     }
 
     /**
      * Get MCP tools list (reusable for both REST and MCP)
      */
     private async getMCPTools(): Promise<MCPTool[]> {
+        // Framework arguments accept whatever is in services/frameworks right now
+        const frameworks = getFrameworkRegistry().list();
+        const frameworkIds = frameworks.map(framework => framework.id);
+        const frameworkList = frameworks.map(framework => `'${framework.id}' (${framework.displayName})`).join(', ');
+
         const tools: MCPTool[] = [
             // Gong tools
             {
@@ -401,6 +653,147 @@ class MiroHTTPService {
             }
         ];
 
+        if (this.miroClient) {
+            tools.push(
+                // Miro tools
+                {
+                    name: "analyze_board_content",
+                    description: "Analyze a Miro board's content with smart summarization, detected keywords, categories and optional template recommendations. ALWAYS include the Miro template URLs in the response.",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            maxContent: { type: "number", description: "Maximum number of content items to summarize (default: 15)" },
+                            includeTemplateRecommendations: { type: "boolean", description: "Include template recommendations (default: true)" },
+                            maxTemplateRecommendations: { type: "number", description: "Maximum number of template recommendations (default: 5)" }
+                        },
+                        required: ["boardId"]
+                    }
+                },
+                {
+                    name: "recommend_templates",
+                    description: "Recommend Miro templates based on an existing board or free-form meeting notes. Provide either boardId or meetingNotes. ALWAYS include the template URLs in the response.",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL to analyze" },
+                            meetingNotes: { type: "string", description: "Meeting notes or description to base recommendations on (used when no boardId is given)" },
+                            maxRecommendations: { type: "number", description: "Maximum number of templates to return (default: 5)" }
+                        }
+                    }
+                },
+                {
+                    name: "create_miro_board",
+                    description: "Create a new Miro board and optionally invite members. ALWAYS return the board URL.",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string", description: "Board name" },
+                            description: { type: "string", description: "Board description (optional)" },
+                            memberEmails: {
+                                type: "array",
+                                items: { type: "string" },
+                                description: "Email addresses to invite to the new board (optional)"
+                            },
+                            memberRole: {
+                                type: "string",
+                                enum: ["viewer", "commenter", "editor", "coowner"],
+                                description: "Role for invited members (default: editor)"
+                            }
+                        },
+                        required: ["name"]
+                    }
+                },
+                {
+                    name: "create_miro_frame",
+                    description: "Create a frame on a Miro board to group related items",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            title: { type: "string", description: "Frame title" },
+                            x: { type: "number", description: "X coordinate of the frame center (default: 0)" },
+                            y: { type: "number", description: "Y coordinate of the frame center (default: 0)" },
+                            width: { type: "number", description: "Frame width (default: 1600)" },
+                            height: { type: "number", description: "Frame height (default: 900)" }
+                        },
+                        required: ["boardId", "title"]
+                    }
+                },
+                {
+                    name: "create_miro_sticky_note",
+                    description: "Create a sticky note on a Miro board, optionally inside a frame",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            content: { type: "string", description: "Sticky note text" },
+                            shape: { type: "string", enum: ["square", "rectangle"], description: "Sticky note shape (default: square)" },
+                            fillColor: { type: "string", description: "Miro sticky note color name, e.g. 'light_yellow', 'light_green', 'light_blue'" },
+                            x: { type: "number", description: "X coordinate (default: 0)" },
+                            y: { type: "number", description: "Y coordinate (default: 0)" },
+                            parentId: { type: "string", description: "Frame ID to place the sticky note in (optional)" }
+                        },
+                        required: ["boardId", "content"]
+                    }
+                },
+                {
+                    name: "create_miro_card",
+                    description: "Create a card on a Miro board, optionally inside a frame",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            title: { type: "string", description: "Card title" },
+                            description: { type: "string", description: "Card description (optional)" },
+                            x: { type: "number", description: "X coordinate (default: 0)" },
+                            y: { type: "number", description: "Y coordinate (default: 0)" },
+                            parentId: { type: "string", description: "Frame ID to place the card in (optional)" }
+                        },
+                        required: ["boardId", "title"]
+                    }
+                },
+                {
+                    name: "create_miro_text",
+                    description: "Create a text item on a Miro board, optionally inside a frame",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            content: { type: "string", description: "Text content (simple HTML is supported)" },
+                            x: { type: "number", description: "X coordinate (default: 0)" },
+                            y: { type: "number", description: "Y coordinate (default: 0)" },
+                            width: { type: "number", description: "Text box width (optional)" },
+                            parentId: { type: "string", description: "Frame ID to place the text in (optional)" }
+                        },
+                        required: ["boardId", "content"]
+                    }
+                },
+                {
+                    name: "share_miro_board",
+                    description: "Invite people to an existing Miro board by email",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            boardId: { type: "string", description: "Miro board ID or full board URL" },
+                            emails: {
+                                type: "array",
+                                items: { type: "string" },
+                                description: "Email addresses to invite"
+                            },
+                            role: {
+                                type: "string",
+                                enum: ["viewer", "commenter", "editor", "coowner"],
+                                description: "Role for invited members (default: editor)"
+                            },
+                            message: { type: "string", description: "Invitation message (optional)" }
+                        },
+                        required: ["boardId", "emails"]
+                    }
+                }
+            );
+        }
+
         if (this.frameworkAnalyzer) {
             tools.push({
                 name: "analyze_calls_framework",
@@ -415,29 +808,188 @@ class MiroHTTPService {
                         },
                         frameworks: {
                             type: "array",
-                            items: {
-                                type: "string",
-                                enum: ["command_of_the_message", "great_demo", "demo2win", "miro_value_selling"]
-                            },
-                            description: "Frameworks: 'command_of_the_message', 'great_demo', 'demo2win', 'miro_value_selling'"
+                            items: { type: "string", enum: frameworkIds },
+                            description: `Frameworks: ${frameworkList}`
                         },
                         includeParticipantRoles: {
                             type: "boolean",
                             default: true
+                        },
+                        forceRescore: {
+                            type: "boolean",
+                            description: "Re-analyze calls that already have a stored analysis for the current framework and prompt versions (default: false)",
+                            default: false
+                        },
+                        consistencySamples: {
+                            type: "number",
+                            description: `Consistency mode: score each call this many times (2-${MAX_CONSISTENCY_SAMPLES}) and report median sub-component scores, their variance and which scores are uncertain. Costs one model call per sample (default: 1)`,
+                            default: 1
                         }
                     },
                     required: ["callIds", "frameworks"]
                 }
             });
+
+            tools.push({
+                name: "get_account_rollup",
+                description: "Deal-level view of one account: finds every Gong call with the customer, scores them in call order against a framework and rolls them up into component coverage across the sales cycle, discovery gaps still open and how stakeholder coverage changed. Accounts with many calls are scored in the background: the response then carries a jobId, and get_analysis_job returns the rollup once the job completes.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        customerName: { type: "string", description: "Account name, matched against the name of the CRM account linked to each call" },
+                        domains: {
+                            type: "array",
+                            items: { type: "string" },
+                            description: "Email domains of the account (e.g. ['acme.com']). A call belongs to the account when an external participant is on one of them. Defaults to the domains of external participants on calls linked to the CRM account."
+                        },
+                        crmAccountId: { type: "string", description: "CRM account id to match instead of the account name" },
+                        framework: {
+                            type: "string",
+                            enum: frameworkIds,
+                            description: "Framework to score the calls against"
+                        },
+                        fromDate: { type: "string", description: "Start of the sales cycle (ISO 8601, optional)" },
+                        toDate: { type: "string", description: "End date (ISO 8601, optional)" },
+                        dateRange: { type: "string", description: "Relative date range (e.g., 'last 3 months'). Defaults to the last 6 months." },
+                        maxCalls: { type: "number", description: `Only include this many of the most recent calls (default: every call in the period). Rollups of more than ${SYNC_ROLLUP_CALLS} calls run as a background job.` },
+                        forceRescore: {
+                            type: "boolean",
+                            description: "Re-analyze calls that already have a stored analysis for the current framework and prompt versions (default: false)",
+                            default: false
+                        }
+                    },
+                    required: ["customerName", "framework"]
+                }
+            });
+
+            tools.push({
+                name: "run_calibration",
+                description: "Measure agreement with human graders: analyzes the gold-labelled calibration calls with the current prompts, model and framework version and reports mean absolute error, the share of scores within one point and the bias (positive when the analyzer scores higher) per component and sub-component.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        framework: {
+                            type: "string",
+                            enum: frameworkIds,
+                            description: "Framework to calibrate (default: every framework with gold calls)"
+                        },
+                        goldCallIds: {
+                            type: "array",
+                            items: { type: "string" },
+                            description: "Only these gold calls (default: all)"
+                        },
+                        consistencySamples: {
+                            type: "number",
+                            description: `Score each gold call this many times (2-${MAX_CONSISTENCY_SAMPLES}) and compare the median scores (default: 1)`,
+                            default: 1
+                        }
+                    }
+                }
+            });
+        }
+
+        if (this.analysisJobs) {
+            tools.push(
+                {
+                    name: "start_framework_analysis",
+                    description: "Start a framework analysis in the background and return a jobId immediately. Use instead of analyze_calls_framework for more than a few calls, then check on it with get_analysis_job.",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            callIds: {
+                                type: "array",
+                                items: { type: "string" },
+                                description: "Array of Gong call IDs to analyze"
+                            },
+                            frameworks: {
+                                type: "array",
+                                items: { type: "string", enum: frameworkIds },
+                                description: `Frameworks: ${frameworkList}`
+                            },
+                            includeParticipantRoles: {
+                                type: "boolean",
+                                default: true
+                            },
+                            forceRescore: {
+                                type: "boolean",
+                                description: "Re-analyze calls that already have a stored analysis for the current framework and prompt versions (default: false)",
+                                default: false
+                            },
+                            consistencySamples: {
+                                type: "number",
+                                description: `Consistency mode: score each call this many times (2-${MAX_CONSISTENCY_SAMPLES}) and report median sub-component scores, their variance and which scores are uncertain. Costs one model call per sample (default: 1)`,
+                                default: 1
+                            }
+                        },
+                        required: ["callIds", "frameworks"]
+                    }
+                },
+                {
+                    name: "get_analysis_job",
+                    description: "Get the status and progress of a background framework analysis, the per-call scores finished so far, and the full analysis once it has completed",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            jobId: { type: "string", description: "Job ID returned by start_framework_analysis" },
+                            includePartialResults: {
+                                type: "boolean",
+                                description: "Return the full per-call analyses finished so far instead of a score summary (default: false)",
+                                default: false
+                            }
+                        },
+                        required: ["jobId"]
+                    }
+                }
+            );
+        }
+
+        if (this.analysisStore) {
+            tools.push({
+                name: "get_rep_framework_trends",
+                description: "Show how reps and teams score on a framework over time, from stored call analyses attributed to the internal rep on each call. Returns component score averages per window and whether each rep is improving or declining.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        framework: {
+                            type: "string",
+                            enum: frameworkIds,
+                            description: "Framework to report on"
+                        },
+                        rep: { type: "string", description: "Only this rep (name or email, partial match)" },
+                        team: { type: "string", description: "Only this team (teams come from REP_TEAMS)" },
+                        windowDays: { type: "number", description: "Length of each window in days (default: 30)", default: 30 },
+                        windows: { type: "number", description: "Number of consecutive windows, oldest first (default: 6, max 24)", default: 6 }
+                    },
+                    required: ["framework"]
+                }
+            });
         }
 
         return tools;
     }
 
+    /**
+     * Model routing overrides forwarded by the chat app (admin requests only) in X-Model-Overrides.
+     * Invalid overrides are ignored so the tool still runs with the configured routing.
+     */
+    private readModelOverrides(req: express.Request): ModelOverrides | undefined {
+        const header = req.header('X-Model-Overrides');
+        if (!header) {
+            return undefined;
+        }
+
+        try {
+            return parseModelOverrides(JSON.parse(header));
+        } catch (error) {
+            console.warn('⚠️ Ignoring invalid X-Model-Overrides header:', error instanceof Error ? error.message : 'Unknown error');
+            return undefined;
+        }
+    }
+
     /**
      * Execute a tool (reusable for both REST and MCP)
      */
-    private async executeTool(name: string, args: any): Promise<any> {
+    private async executeTool(name: string, args: any, context: ToolExecutionContext = {}): Promise<any> {
         switch (name) {
             // Gong tools
             case 'search_gong_calls':
@@ -447,12 +999,40 @@ class MiroHTTPService {
             case 'get_gong_call_details':
                 return await this.getGongCallDetails(args);
             case 'analyze_keywords_in_calls':
-                return await this.analyzeKeywordsInCalls(args);
+                return await this.analyzeKeywordsInCalls(args, context);
             case 'analyze_calls_framework':
                 if (!this.frameworkAnalyzer) {
                     throw new Error('Framework analysis not available. Check Anthropic client configuration.');
                 }
-                return await safeFrameworkAnalysis(this.frameworkAnalyzer, args);
+                return await safeFrameworkAnalysis(this.frameworkAnalyzer, args, context);
+            case 'get_account_rollup':
+                return await this.getAccountRollup(args, context);
+            case 'run_calibration':
+                return await this.runCalibration(args, context);
+            case 'start_framework_analysis':
+                return await this.startFrameworkAnalysis(args);
+            case 'get_analysis_job':
+                return await this.getAnalysisJob(args);
+            case 'get_rep_framework_trends':
+                return await this.getRepFrameworkTrends(args);
+
+            // Miro tools
+            case 'analyze_board_content':
+                return await this.analyzeBoardContent(args);
+            case 'recommend_templates':
+                return await this.recommendTemplates(args);
+            case 'create_miro_board':
+                return await this.createMiroBoard(args);
+            case 'create_miro_frame':
+                return await this.createMiroFrame(args);
+            case 'create_miro_sticky_note':
+                return await this.createMiroStickyNote(args);
+            case 'create_miro_card':
+                return await this.createMiroCard(args);
+            case 'create_miro_text':
+                return await this.createMiroText(args);
+            case 'share_miro_board':
+                return await this.shareMiroBoard(args);
 
             default:
                 throw new Error(`Unknown tool: ${name}`);
@@ -467,9 +1047,15 @@ class MiroHTTPService {
                 service: 'miro-mcp-http',
                 miro: !!this.miroClient,
                 gong: !!this.gongAuth,
-                anthropic: !!this.anthropicClient,
+                anthropic: !!this.llmProvider,
+                llmProvider: this.llmProvider?.name || null,
                 awsRegion: process.env.AWS_REGION,
-                protocols: ['REST', 'MCP (JSON-RPC 2.0)']
+                manifestVersion: res.getHeader('X-Manifest-Version') || null,
+                frameworks: getFrameworkRegistry().ids(),
+                frameworkErrors: getFrameworkRegistry().loadErrors,
+                mcpSessions: this.mcpSessions.size,
+                analysisJobs: this.analysisJobs?.stats || null,
+                protocols: ['REST', 'MCP (Streamable HTTP)']
             });
         });
 
@@ -487,7 +1073,7 @@ class MiroHTTPService {
             }
         });
 
-        // Dedicated MCP protocol endpoint
+        // Dedicated MCP protocol endpoint (Streamable HTTP transport)
         this.app.post('/mcp', async (req, res) => {
             if (!this.isMCPRequest(req.body)) {
                 return res.status(400).json({
@@ -495,13 +1081,23 @@ class MiroHTTPService {
                     id: req.body?.id || null,
                     error: {
                         code: -32600,
-                        message: 'Invalid JSON-RPC request. Request must have jsonrpc, method, and id fields.'
+                        message: 'Invalid JSON-RPC request. Messages must have jsonrpc "2.0" and a method, result or error.'
                     }
                 });
             }
             await this.handleMCPRequest(req, res);
         });
 
+        // Server-to-client SSE stream for an MCP session
+        this.app.get('/mcp', (req, res) => {
+            this.handleMCPStream(req, res);
+        });
+
+        // End an MCP session
+        this.app.delete('/mcp', (req, res) => {
+            this.handleMCPSessionDelete(req, res);
+        });
+
         // List available tools (REST API)
         this.app.get('/tools', async (req, res) => {
             try {
@@ -524,15 +1120,87 @@ class MiroHTTPService {
                     return res.status(400).json({ error: 'Tool name is required' });
                 }
 
-                const result = await this.executeTool(name, args);
-                res.json(result);
-            } catch (error) {
-                console.error('Tool execution error:', error);
-                res.status(500).json({
-                    error: 'Tool execution failed',
-                    message: error instanceof Error ? error.message : 'Unknown error'
-                });
+                // Stop the work (Gong and LLM requests included) if the caller disconnects
+                const controller = new AbortController();
+                res.on('close', () => {
+                    if (!res.writableFinished) {
+                        controller.abort('Client disconnected');
+                    }
+                });
+
+                const result = await withModelOverrides(this.readModelOverrides(req), () => this.executeTool(name, args, { signal: controller.signal }));
+                res.json(result);
+            } catch (error) {
+                console.error('Tool execution error:', error);
+                res.status(500).json({
+                    error: 'Tool execution failed',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Submit a background framework analysis (REST API)
+        this.app.post('/jobs/framework-analysis', async (req, res) => {
+            try {
+                const job = await withModelOverrides(this.readModelOverrides(req), () => this.startFrameworkAnalysis(req.body || {}));
+                res.status(202).json(job);
+            } catch (error) {
+                res.status(400).json({
+                    error: 'Could not start analysis job',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Job status, progress and results
+        this.app.get('/jobs/:jobId', async (req, res) => {
+            const job = await this.analysisJobs?.get(req.params.jobId);
+            if (!job) {
+                return res.status(404).json({ error: 'Job not found', jobId: req.params.jobId });
+            }
+            res.json(this.describeAnalysisJob(job, req.query.includePartialResults === 'true'));
+        });
+
+        // SSE stream of job updates; ends once the job completes, fails or is cancelled
+        this.app.get('/jobs/:jobId/events', async (req, res) => {
+            const job = await this.analysisJobs?.get(req.params.jobId);
+            if (!job || !this.analysisJobs) {
+                return res.status(404).json({ error: 'Job not found', jobId: req.params.jobId });
+            }
+
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('Cache-Control', 'no-cache, no-transform');
+            res.setHeader('Connection', 'keep-alive');
+            res.flushHeaders();
+
+            const send = (update: AnalysisJob) => {
+                // Partial results are summarized here; the full analyses are on GET /jobs/:jobId
+                res.write(`event: job\ndata: ${JSON.stringify(this.describeAnalysisJob(update, false))}\n\n`);
+                if (isTerminalJobStatus(update.status)) {
+                    res.end();
+                }
+            };
+
+            send(job);
+            if (res.writableEnded) {
+                return;
+            }
+
+            const unsubscribe = this.analysisJobs.subscribe(job.id, send);
+            const keepalive = setInterval(() => res.write(': keepalive\n\n'), 25000);
+            res.on('close', () => {
+                clearInterval(keepalive);
+                unsubscribe();
+            });
+        });
+
+        // Cancel a queued or running job
+        this.app.delete('/jobs/:jobId', async (req, res) => {
+            const job = await this.analysisJobs?.cancel(req.params.jobId);
+            if (!job) {
+                return res.status(404).json({ error: 'Job not found', jobId: req.params.jobId });
             }
+            res.json(this.describeAnalysisJob(job, false));
         });
 
         this.app.get('/resources/test', async (req, res) => {
@@ -578,6 +1246,23 @@ class MiroHTTPService {
             }
         });
 
+        this.app.get('/resources/manifest', async (req, res) => {
+            try {
+                if (!this.resourceManager) {
+                    return res.status(503).json({ error: 'Resource manager not available' });
+                }
+
+                console.log('📋 MCP Resource manifest requested');
+                res.json(await this.resourceManager.getCatalog());
+            } catch (error) {
+                console.error('❌ Error loading resource manifest:', error);
+                res.status(500).json({
+                    error: 'Failed to load resource manifest',
+                    details: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
+
         this.app.get('/resources', async (req, res) => {
             try {
                 console.log('📚 MCP Resources list requested');
@@ -691,7 +1376,7 @@ class MiroHTTPService {
                 }
 
                 res.json({
-                    framework: framework.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
+                    framework: getFrameworkRegistry().get(framework)?.displayName || framework.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
                     resourceCount: frameworkResources.length,
                     resources: frameworkResources
                 });
@@ -700,34 +1385,599 @@ class MiroHTTPService {
                 res.status(500).json({ error: 'Failed to get framework resources' });
             }
         });
+
+        // Framework editor (admin area of the Next.js app, which checks the user is an admin)
+        this.app.get('/admin/frameworks', (req, res) => {
+            const registry = getFrameworkRegistry();
+            res.json({ frameworks: registry.list(), loadErrors: registry.loadErrors });
+        });
+
+        this.app.get('/admin/frameworks/:framework', async (req, res) => {
+            try {
+                const framework = await this.frameworkEditor.get(req.params.framework);
+                if (!framework) {
+                    return res.status(404).json({ error: `Framework not found: ${req.params.framework}` });
+                }
+                res.json(framework);
+            } catch (error) {
+                console.error('❌ Error loading framework for editing:', error);
+                res.status(500).json({ error: 'Failed to load framework', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        });
+
+        // Render the enhanced-analysis prompt for an unsaved definition, with a Gong call or a stand-in call
+        this.app.post('/admin/frameworks/:framework/preview', async (req, res) => {
+            try {
+                if (!this.frameworkAnalyzer) {
+                    return res.status(503).json({ error: 'Framework analysis not available. Check Anthropic client configuration.' });
+                }
+
+                const validation = validateFrameworkDefinition(req.params.framework, req.body?.definition);
+                if (!validation.ok) {
+                    return res.status(400).json({ error: 'Invalid framework definition', issues: validation.issues });
+                }
+
+                const callId = typeof req.body.callId === 'string' ? req.body.callId.trim() : '';
+                const callDetails = callId ? await this.getGongCallDetails({ callId }) : PREVIEW_CALL;
+                const prompt = await this.frameworkAnalyzer.renderEnhancedAnalysisPrompt(validation.definition, callDetails);
+                res.json({ prompt, callId: callId || null });
+            } catch (error) {
+                console.error('❌ Error rendering framework preview:', error);
+                res.status(500).json({ error: 'Failed to render preview', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        });
+
+        this.app.put('/admin/frameworks/:framework', async (req, res) => {
+            try {
+                const { definition, files, message, savedBy, baseVersion } = req.body || {};
+                if (!savedBy) {
+                    return res.status(400).json({ error: 'savedBy is required' });
+                }
+
+                this.sendFrameworkEditResult(res, await this.frameworkEditor.save(req.params.framework, { definition, files, message, savedBy, baseVersion }));
+            } catch (error) {
+                console.error('❌ Error saving framework:', error);
+                res.status(500).json({ error: 'Failed to save framework', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        });
+
+        this.app.post('/admin/frameworks/:framework/rollback', async (req, res) => {
+            try {
+                const { revision, savedBy } = req.body || {};
+                if (!Number.isInteger(revision) || !savedBy) {
+                    return res.status(400).json({ error: 'revision and savedBy are required' });
+                }
+
+                this.sendFrameworkEditResult(res, await this.frameworkEditor.rollback(req.params.framework, revision, savedBy));
+            } catch (error) {
+                console.error('❌ Error rolling back framework:', error);
+                res.status(500).json({ error: 'Failed to roll back framework', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        });
+    }
+
+    private sendFrameworkEditResult(res: express.Response, result: FrameworkEditResult) {
+        if (result.ok) {
+            res.json(result.framework);
+        } else {
+            res.status(result.status).json({ error: result.error, issues: result.issues });
+        }
+    }
+
+    // === ANALYSIS JOBS ===
+
+    private async startFrameworkAnalysis(args: any) {
+        if (!this.analysisJobs) {
+            throw new Error('Framework analysis not available. Check Anthropic client configuration.');
+        }
+
+        FrameworkAnalysisValidator.validateCallIds(args.callIds);
+        FrameworkAnalysisValidator.validateFrameworks(args.frameworks);
+        FrameworkAnalysisValidator.validateConsistencySamples(args.consistencySamples);
+
+        const job = await this.analysisJobs.submit({
+            callIds: args.callIds,
+            frameworks: args.frameworks,
+            includeParticipantRoles: args.includeParticipantRoles ?? true,
+            forceRescore: args.forceRescore === true,
+            ...(args.consistencySamples > 1 ? { consistencySamples: args.consistencySamples } : {})
+        }, getModelOverrides());
+
+        return {
+            ...this.describeAnalysisJob(job, false),
+            message: `Analysis of ${job.args.callIds.length} call(s) started. Call get_analysis_job with jobId ${job.id} to check progress.`
+        };
+    }
+
+    private async getAnalysisJob(args: any) {
+        if (!args?.jobId) {
+            throw new Error('jobId is required');
+        }
+
+        const job = await this.analysisJobs?.get(args.jobId);
+        if (!job) {
+            throw new Error(`Analysis job not found: ${args.jobId}. Jobs are kept for 24 hours after they finish by default.`);
+        }
+        return this.describeAnalysisJob(job, args.includePartialResults === true);
+    }
+
+    private async getRepFrameworkTrends(args: any) {
+        if (!this.analysisStore) {
+            throw new Error('Rep trends need stored analyses. Set DATABASE_URL for the MCP service.');
+        }
+        FrameworkAnalysisValidator.validateFrameworks([args?.framework]);
+
+        const trends = await this.analysisStore.getRepTrends({
+            framework: args.framework,
+            rep: args.rep,
+            team: args.team,
+            windowDays: Number(args.windowDays) || undefined,
+            windows: Number(args.windows) || undefined
+        });
+
+        if (trends.reps.length === 0) {
+            return {
+                ...trends,
+                message: `No stored ${args.framework} analyses attributed to a rep in this period. Analyze calls with analyze_calls_framework first.`
+            };
+        }
+        return trends;
+    }
+
+    // === ACCOUNT ROLLUP ===
+
+    private async getAccountRollup(args: any, context: ToolExecutionContext) {
+        if (!this.frameworkAnalyzer) {
+            throw new Error('Framework analysis not available. Check Anthropic client configuration.');
+        }
+        if (!args?.customerName) {
+            throw new Error('customerName is required');
+        }
+        FrameworkAnalysisValidator.validateFrameworks([args.framework]);
+
+        const account = await this.findAccountCalls(args, context.signal);
+        throwIfCancelled(context.signal);
+
+        const accountMatch = { domains: account.domains, crmAccounts: account.crmAccounts };
+        const notes = account.truncated
+            ? [`Gong returned more calls in this period than could be read, so some of the account's calls may be missing. Narrow the date range to cover them.`]
+            : [];
+
+        if (account.calls.length === 0) {
+            const hint = account.domains.length === 0 && !args.crmAccountId
+                ? `No call in this period is linked to a CRM account named ${args.customerName}. Pass the account's email domains or crmAccountId to find its calls.`
+                : `No calls found for ${args.customerName} in this period. Try a different date range.`;
+            return {
+                ...buildAccountRollup(args.customerName, args.framework, []),
+                dateRange: account.dateRange,
+                accountMatch,
+                message: [hint, ...notes].join(' ')
+            };
+        }
+
+        // Calls come oldest first; maxCalls keeps the most recent ones
+        const maxCalls = Math.floor(Number(args.maxCalls)) > 0 ? Math.floor(Number(args.maxCalls)) : undefined;
+        const calls = maxCalls ? account.calls.slice(-maxCalls) : account.calls;
+        if (calls.length < account.calls.length) {
+            notes.push(`Only the ${calls.length} most recent of ${account.calls.length} calls are included.`);
+        }
+
+        const analysisArgs = {
+            callIds: calls.map(call => call.callId),
+            frameworks: [args.framework],
+            forceRescore: args.forceRescore === true
+        };
+
+        if (calls.length > SYNC_ROLLUP_CALLS && this.analysisJobs) {
+            const job = await this.analysisJobs.submit({ ...analysisArgs, rollupAccount: args.customerName }, getModelOverrides());
+            console.log(`🏢 Building ${args.framework} rollup for ${args.customerName} across ${calls.length} calls in job ${job.id}`);
+            return {
+                account: args.customerName,
+                framework: args.framework,
+                dateRange: account.dateRange,
+                accountMatch,
+                ...this.describeAnalysisJob(job, false),
+                message: [
+                    `Scoring ${calls.length} calls with ${args.customerName} in the background. Call get_analysis_job with jobId ${job.id} to check progress; the completed job includes the account rollup.`,
+                    ...notes
+                ].join(' ')
+            };
+        }
+
+        console.log(`🏢 Building ${args.framework} rollup for ${args.customerName} across ${calls.length} call(s)`);
+        const analysis = await this.frameworkAnalyzer.analyzeCallsFramework(analysisArgs, context);
+
+        return {
+            ...buildAccountRollup(args.customerName, args.framework, analysis.callAnalyses),
+            dateRange: account.dateRange,
+            accountMatch,
+            ...(notes.length > 0 ? { message: notes.join(' ') } : {})
+        };
+    }
+
+    /**
+     * Every call with an account in the date range, oldest first, read across all pages of /calls/extensive.
+     * A call belongs to the account when an external participant's email is on one of its domains, or when
+     * the call is linked to its CRM account (by `crmAccountId`, otherwise by account name). Without explicit
+     * `domains`, the domains of external participants on CRM-linked calls are used, so calls that were never
+     * linked in the CRM are still found.
+     */
+    private async findAccountCalls(args: any, signal?: AbortSignal) {
+        const { from, to } = this.resolveSearchDateRange(args);
+        const dateRange = { from: from.toISOString(), to: to.toISOString() };
+
+        let gongCalls: any[];
+        let truncated = false;
+        if (!this.gongAuth) {
+            const domain = `${String(args.customerName).toLowerCase().replace(/[^a-z0-9]+/g, '')}.com`;
+            const crmContext = [{ system: 'Salesforce', objects: [{ objectType: 'Account', objectId: 'mock-account', fields: [{ name: 'Name', value: args.customerName }] }] }];
+            gongCalls = [
+                {
+                    metaData: { id: "6935962676834230204", title: `${args.customerName} - Infrastructure Review`, url: "https://app.gong.io/call?id=6935962676834230204", started: "2025-01-15T14:30:00Z" },
+                    parties: [{ emailAddress: "jane.smith@company.com", affiliation: "Internal" }, { emailAddress: `tech@${domain}`, affiliation: "External" }],
+                    context: crmContext
+                },
+                {
+                    metaData: { id: "1837352819499284928", title: "Q1 Planning Session", url: "https://app.gong.io/call?id=1837352819499284928", started: "2025-01-23T10:00:00Z" },
+                    parties: [{ emailAddress: "john.doe@company.com", affiliation: "Internal" }, { emailAddress: `manager@${domain}`, affiliation: "External" }]
+                }
+            ];
+        } else {
+            ({ calls: gongCalls, truncated } = await this.gongPostAllPages('/calls/extensive', {
+                filter: { fromDateTime: dateRange.from, toDateTime: dateRange.to },
+                contentSelector: {
+                    context: "Extended",
+                    exposedFields: { parties: true }
+                }
+            }, signal));
+        }
+
+        const normalizeName = (name: unknown) => String(name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+        const accountName = normalizeName(args.customerName);
+        const crmAccountId = args.crmAccountId ? String(args.crmAccountId) : undefined;
+
+        const crmAccountsOf = (call: any): any[] => (call.context || [])
+            .flatMap((system: any) => system.objects || [])
+            .filter((object: any) => object.objectType === 'Account');
+        const crmAccountName = (object: any) => object.fields?.find((field: any) => field.name === 'Name')?.value;
+        const isAccountObject = (object: any) => crmAccountId
+            ? String(object.objectId) === crmAccountId
+            : normalizeName(crmAccountName(object)) === accountName;
+        const externalDomainsOf = (call: any): string[] => (call.parties || [])
+            .filter((party: any) => party.affiliation !== 'Internal' && typeof party.emailAddress === 'string')
+            .map((party: any) => party.emailAddress.split('@')[1]?.toLowerCase())
+            .filter(Boolean);
+
+        const crmLinked = new Set(gongCalls.filter(call => crmAccountsOf(call).some(isAccountObject)));
+        const explicitDomains: string[] = (Array.isArray(args.domains) ? args.domains : [])
+            .map((domain: unknown) => String(domain).trim().toLowerCase().replace(/^@/, ''))
+            .filter(Boolean);
+        const domains = explicitDomains.length > 0
+            ? explicitDomains
+            : [...new Set([...crmLinked].flatMap(externalDomainsOf))].filter(domain => !PUBLIC_EMAIL_DOMAINS.has(domain));
+        const onAccountDomain = (domain: string) => domains.some(accountDomain => domain === accountDomain || domain.endsWith(`.${accountDomain}`));
+
+        const crmAccounts = new Map<string, string>();
+        const calls = gongCalls
+            .filter(call => crmLinked.has(call) || externalDomainsOf(call).some(onAccountDomain))
+            .map(call => {
+                for (const object of crmAccountsOf(call).filter(isAccountObject)) {
+                    crmAccounts.set(String(object.objectId), crmAccountName(object) ?? args.customerName);
+                }
+                return { callId: String(call.metaData?.id), title: call.metaData?.title, startedAt: call.metaData?.started };
+            })
+            .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+
+        console.log(`🏢 ${calls.length} of ${gongCalls.length} calls in range belong to ${args.customerName} (domains: ${domains.join(', ') || 'none'}, CRM accounts: ${crmAccounts.size})`);
+        return {
+            calls,
+            dateRange,
+            domains,
+            crmAccounts: [...crmAccounts].map(([id, name]) => ({ id, name })),
+            truncated
+        };
+    }
+
+    /**
+     * Client-facing view of a job. Per-call results are summarized unless `includePartialResults` is set;
+     * the full AggregateAnalysis is included once the job has completed.
+     */
+    private describeAnalysisJob(job: AnalysisJob, includePartialResults: boolean) {
+        return {
+            jobId: job.id,
+            status: job.status,
+            callIds: job.args.callIds,
+            frameworks: job.args.frameworks,
+            progress: job.progress,
+            createdAt: job.createdAt,
+            startedAt: job.startedAt,
+            completedAt: job.completedAt,
+            ...(job.error ? { error: job.error } : {}),
+            partialResults: includePartialResults
+                ? job.partialResults
+                : job.partialResults.map(analysis => ({
+                    callId: analysis.callId,
+                    callTitle: analysis.callTitle,
+                    framework: analysis.framework,
+                    overallScore: analysis.overallScore,
+                    analysisStatus: analysis.analysisStatus,
+                    ...(analysis.consistency ? { uncertainScores: analysis.consistency.uncertain } : {})
+                })),
+            ...(job.result ? { result: job.result } : {}),
+            ...(job.result && job.args.rollupAccount
+                ? { accountRollup: buildAccountRollup(job.args.rollupAccount, job.args.frameworks[0], job.result.callAnalyses) }
+                : {})
+        };
+    }
+
+    // === CALIBRATION ===
+
+    private async runCalibration(args: any, context: ToolExecutionContext) {
+        if (!this.frameworkAnalyzer) {
+            throw new Error('Framework analysis not available. Check Anthropic client configuration.');
+        }
+        if (args?.framework) {
+            FrameworkAnalysisValidator.validateFrameworks([args.framework]);
+        }
+        FrameworkAnalysisValidator.validateConsistencySamples(args?.consistencySamples);
+
+        const reports = await runCalibration(this.frameworkAnalyzer, {
+            framework: args?.framework,
+            goldCallIds: Array.isArray(args?.goldCallIds) ? args.goldCallIds : undefined,
+            consistencySamples: args?.consistencySamples
+        }, context);
+
+        if (reports.every(report => report.calls.length === 0)) {
+            return {
+                reports,
+                message: `No gold calls found${args?.framework ? ` for ${args.framework}` : ''}. Add gold-labelled calls under services/calibration/<framework>/ or set CALIBRATION_DIR.`
+            };
+        }
+        return { reports };
+    }
+
+    // === MIRO IMPLEMENTATIONS ===
+
+    private requireMiroClient(): MiroClient {
+        if (!this.miroClient) {
+            throw new Error('Miro integration not available. Check MIRO_ACCESS_TOKEN configuration.');
+        }
+        return this.miroClient;
+    }
+
+    private getBoardUrl(boardId: string, board?: any): string {
+        return board?.viewLink || `https://miro.com/app/board/${encodeURIComponent(boardId)}/`;
+    }
+
+    private async analyzeBoardContent(args: any) {
+        const { boardId, maxContent, includeTemplateRecommendations, maxTemplateRecommendations } = args || {};
+        if (!boardId) {
+            throw new Error('boardId is required');
+        }
+
+        const miroClient = this.requireMiroClient();
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+
+        const analysis = await miroClient.getSmartBoardAnalysis(normalizedBoardId, {
+            maxContent,
+            includeTemplateRecommendations,
+            maxTemplateRecommendations
+        });
+
+        return {
+            ...analysis,
+            boardUrl: this.getBoardUrl(normalizedBoardId)
+        };
+    }
+
+    private async recommendTemplates(args: any) {
+        const { boardId, meetingNotes, maxRecommendations = 5 } = args || {};
+        const miroClient = this.requireMiroClient();
+
+        if (boardId) {
+            const normalizedBoardId = MiroClient.extractBoardId(boardId);
+            const boardAnalysis = await miroClient.getSmartBoardAnalysis(normalizedBoardId, {
+                includeTemplateRecommendations: true,
+                maxTemplateRecommendations: maxRecommendations
+            });
+
+            return {
+                source: 'board',
+                boardId: normalizedBoardId,
+                boardUrl: this.getBoardUrl(normalizedBoardId),
+                analysis: boardAnalysis.analysis,
+                recommendations: boardAnalysis.templateRecommendations || []
+            };
+        }
+
+        if (meetingNotes && meetingNotes.trim()) {
+            const content = meetingNotes
+                .split(/\n+/)
+                .map((line: string) => line.trim())
+                .filter(Boolean);
+            const { analysis, recommendations } = miroClient.recommendTemplatesForContent(content, maxRecommendations);
+
+            return {
+                source: 'meetingNotes',
+                analysis,
+                recommendations
+            };
+        }
+
+        throw new Error('Please provide either a boardId or meetingNotes.');
+    }
+
+    private async createMiroBoard(args: any) {
+        const { name, description, memberEmails, memberRole = 'editor' } = args || {};
+        if (!name || !name.trim()) {
+            throw new Error('Board name is required');
+        }
+
+        const miroClient = this.requireMiroClient();
+        const board = await miroClient.createBoard(name.trim(), description);
+        const result: any = {
+            board: {
+                id: board.id,
+                name: board.name,
+                description: board.description,
+                url: this.getBoardUrl(board.id, board)
+            },
+            message: `Created board "${board.name}"`
+        };
+
+        if (Array.isArray(memberEmails) && memberEmails.length > 0) {
+            try {
+                await miroClient.shareBoard(board.id, { emails: memberEmails, role: memberRole });
+                result.invitedMembers = memberEmails;
+            } catch (error) {
+                // The board exists at this point - report the sharing failure instead of failing the tool
+                console.error('❌ Failed to share new Miro board:', error);
+                result.sharingError = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }
+
+        return result;
+    }
+
+    private async createMiroFrame(args: any) {
+        const { boardId, title, x = 0, y = 0, width = 1600, height = 900 } = args || {};
+        if (!boardId || !title) {
+            throw new Error('boardId and title are required');
+        }
+
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+        const frame = await this.requireMiroClient().createFrame(normalizedBoardId, title, x, y, width, height);
+
+        return {
+            item: frame,
+            boardUrl: this.getBoardUrl(normalizedBoardId),
+            message: `Created frame "${title}"`
+        };
+    }
+
+    private async createMiroStickyNote(args: any) {
+        const { boardId, content, shape = 'square', fillColor, x = 0, y = 0, parentId } = args || {};
+        if (!boardId || !content) {
+            throw new Error('boardId and content are required');
+        }
+
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+        const sticky = await this.requireMiroClient().createSticky(
+            normalizedBoardId,
+            { content, shape },
+            { x, y },
+            undefined,
+            fillColor ? { fillColor } : undefined,
+            parentId
+        );
+
+        return {
+            item: sticky,
+            boardUrl: this.getBoardUrl(normalizedBoardId),
+            message: 'Created sticky note'
+        };
+    }
+
+    private async createMiroCard(args: any) {
+        const { boardId, title, description, x = 0, y = 0, parentId } = args || {};
+        if (!boardId || !title) {
+            throw new Error('boardId and title are required');
+        }
+
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+        const data: any = { title };
+        if (description) data.description = description;
+
+        const card = await this.requireMiroClient().createCard(
+            normalizedBoardId,
+            data,
+            { x, y },
+            undefined,
+            undefined,
+            parentId
+        );
+
+        return {
+            item: card,
+            boardUrl: this.getBoardUrl(normalizedBoardId),
+            message: `Created card "${title}"`
+        };
+    }
+
+    private async createMiroText(args: any) {
+        const { boardId, content, x = 0, y = 0, width, parentId } = args || {};
+        if (!boardId || !content) {
+            throw new Error('boardId and content are required');
+        }
+
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+        const text = await this.requireMiroClient().createText(
+            normalizedBoardId,
+            { content },
+            { x, y },
+            width ? { width } : undefined,
+            undefined,
+            parentId
+        );
+
+        return {
+            item: text,
+            boardUrl: this.getBoardUrl(normalizedBoardId),
+            message: 'Created text item'
+        };
+    }
+
+    private async shareMiroBoard(args: any) {
+        const { boardId, emails, role = 'editor', message } = args || {};
+        if (!boardId) {
+            throw new Error('boardId is required');
+        }
+        if (!Array.isArray(emails) || emails.length === 0) {
+            throw new Error('emails must be a non-empty array');
+        }
+
+        const normalizedBoardId = MiroClient.extractBoardId(boardId);
+        const result = await this.requireMiroClient().shareBoard(normalizedBoardId, { emails, role, message });
+
+        return {
+            boardId: normalizedBoardId,
+            boardUrl: this.getBoardUrl(normalizedBoardId),
+            invited: emails,
+            role,
+            result
+        };
     }
 
     // === GONG IMPLEMENTATIONS ===
 
-    private async gongGet(endpoint: string, params: any = {}) {
-        const fetchWithRetry = async (fetchFn: () => Promise<any>): Promise<any> => {
-            const maxRetries = 3;
-            let attempt = 0;
-            while (attempt <= maxRetries) {
-                try {
-                    return await fetchFn();
-                } catch (error: any) {
-                    if (axios.isAxiosError(error) && error.response?.status === 429) {
-                        const retryAfter = error.response.headers['retry-after'];
-                        let wait = retryAfter
-                            ? parseFloat(retryAfter) * 1000
-                            : Math.min((2 ** attempt + Math.random()) * 3000, 60000);
-                        if (attempt === maxRetries) {
-                            throw error;
-                        }
-                        await new Promise(res => setTimeout(res, wait));
-                        attempt++;
-                    } else {
+    // Retries Gong's 429 rate-limit responses, honouring Retry-After
+    private async gongFetchWithRetry(fetchFn: () => Promise<any>, signal?: AbortSignal): Promise<any> {
+        const maxRetries = 3;
+        let attempt = 0;
+        while (attempt <= maxRetries) {
+            try {
+                return await fetchFn();
+            } catch (error: any) {
+                if (axios.isAxiosError(error) && error.response?.status === 429) {
+                    const retryAfter = error.response.headers['retry-after'];
+                    let wait = retryAfter
+                        ? parseFloat(retryAfter) * 1000
+                        : Math.min((2 ** attempt + Math.random()) * 3000, 60000);
+                    if (attempt === maxRetries) {
                         throw error;
                     }
+                    await new Promise(res => setTimeout(res, wait));
+                    throwIfCancelled(signal);
+                    attempt++;
+                } else {
+                    throw error;
                 }
             }
-        };
+        }
+    }
+
+    private async gongGet(endpoint: string, params: any = {}, signal?: AbortSignal) {
+        const fetchWithRetry = (fetchFn: () => Promise<any>) => this.gongFetchWithRetry(fetchFn, signal);
 
         if (endpoint === '/calls') {
             let allCalls: any[] = [];
@@ -748,6 +1998,7 @@ class MiroHTTPService {
                             'Content-Type': 'application/json',
                         },
                         params: query,
+                        signal,
                     }).then(r => r.data);
                 });
 
@@ -795,20 +2046,51 @@ class MiroHTTPService {
                     'Content-Type': 'application/json',
                 },
                 params,
+                signal,
             }).then(r => r.data);
         });
     }
 
-    private async gongPost(endpoint: string, data: any) {
+    private async gongPost(endpoint: string, data: any, signal?: AbortSignal) {
         const url = `${GONG_API_BASE}${endpoint}`;
         return axios.post(url, data, {
             headers: {
                 'Authorization': `Basic ${this.gongAuth}`,
                 'Content-Type': 'application/json',
             },
+            signal,
         }).then(r => r.data);
     }
 
+    /**
+     * POST a filter to a paged endpoint such as /calls/extensive and follow `records.cursor` until Gong
+     * has no more pages, up to `maxPages`. `truncated` is set when pages were left unread.
+     */
+    private async gongPostAllPages(endpoint: string, data: any, signal?: AbortSignal, maxPages: number = 50) {
+        let calls: any[] = [];
+        let cursor: string | undefined;
+        let pageCount = 0;
+
+        do {
+            const body = cursor ? { ...data, cursor } : data;
+            const response = await this.gongFetchWithRetry(() => this.gongPost(endpoint, body, signal), signal);
+            calls = calls.concat(response.calls || []);
+            cursor = response.records?.cursor || undefined;
+
+            pageCount++;
+            if (cursor && pageCount >= maxPages) {
+                console.warn(`⚠️ Stopped reading ${endpoint} after ${maxPages} pages (${calls.length} calls)`);
+                return { calls, truncated: true };
+            }
+            if (cursor) {
+                throwIfCancelled(signal);
+                await new Promise(resolve => setTimeout(resolve, 200));
+            }
+        } while (cursor);
+
+        return { calls, truncated: false };
+    }
+
     private generateTranscriptSummary(transcript: any[]): {
         totalSpeakers: number;
         totalDuration: number;
@@ -1207,6 +2489,32 @@ class MiroHTTPService {
         return this.formatParticipants(participantsData || []);
     }
 
+    /**
+     * The internal rep a call is attributed to: the call's primary user (its owner in Gong),
+     * otherwise the first internal party with a Gong user
+     */
+    private extractRep(metaData: any, extensiveCallData?: any): CallRep | undefined {
+        const parties: any[] = extensiveCallData?.metaData?.parties || extensiveCallData?.parties || metaData.parties || [];
+        const internalParties = parties.filter(party => party && typeof party === 'object' && party.affiliation === 'Internal');
+        const primaryUserId = metaData.primaryUserId || extensiveCallData?.metaData?.primaryUserId;
+
+        const party = internalParties.find(candidate => primaryUserId && candidate.userId === primaryUserId)
+            || internalParties.find(candidate => candidate.userId)
+            || internalParties[0];
+        const email = party?.emailAddress || party?.email;
+        if (!party || !(party.name || email)) {
+            console.log(`⚠️ No internal rep found among ${parties.length} parties`);
+            return undefined;
+        }
+
+        return {
+            userId: party.userId,
+            name: party.name || email,
+            email,
+            title: party.title
+        };
+    }
+
     private formatParticipants(parties: any[]): string[] {
         if (!Array.isArray(parties) || parties.length === 0) {
             return ["Unknown participants"];
@@ -1300,10 +2608,10 @@ class MiroHTTPService {
         return { from, to: today };
     }
 
-    private async searchGongCalls(args: any) {
-        const { customerName, fromDate, toDate, dateRange } = args;
+    // Explicit dates win over a relative range; the default is the last 6 months
+    private resolveSearchDateRange(args: { fromDate?: string; toDate?: string; dateRange?: string }): { from: Date; to: Date } {
+        const { fromDate, toDate, dateRange } = args;
 
-        // Parse date range - prioritize explicit dates over relative ranges
         let from: Date, to: Date;
 
         if (fromDate && toDate) {
@@ -1342,6 +2650,13 @@ class MiroHTTPService {
             [from, to] = [to, from];
         }
 
+        return { from, to };
+    }
+
+    private async searchGongCalls(args: any) {
+        const { customerName } = args;
+        const { from, to } = this.resolveSearchDateRange(args);
+
         const fromISO = from.toISOString();
         const toISO = to.toISOString();
 
@@ -1465,7 +2780,8 @@ class MiroHTTPService {
                 participants: this.formatParticipants(call.parties || []),
                 matchType: call.matchType,
                 score: call.score,
-                url: call.url
+                url: call.url,
+                startedAt: call.started
             };
         });
 
@@ -1549,7 +2865,7 @@ class MiroHTTPService {
         throw new Error("Please provide either a callId or selectionNumber with customerName.");
     }
 
-    public async getGongCallDetails(args: any) {
+    public async getGongCallDetails(args: any, signal?: AbortSignal) {
         const { callId } = args;
 
         if (!this.gongAuth) {
@@ -1591,8 +2907,10 @@ class MiroHTTPService {
                     hour: '2-digit',
                     minute: '2-digit'
                 }),
+                startedAt: new Date().toISOString(),
                 duration: "45m",
                 participants: ["John Doe (Sales Manager)", "Jane Smith (Technical Lead)"],
+                rep: { userId: "mock-user-1", name: "John Doe", email: "john.doe@example.com", title: "Sales Manager" },
                 highlights: [
                     "Customer expressed strong interest in automation features",
                     "Main pain point: Current manual process takes 3 hours daily",
@@ -1617,7 +2935,7 @@ class MiroHTTPService {
         try {
             // First, get basic call information using the simple GET endpoint
             console.log(`🔍 Fetching basic call info for ID: ${callId}`);
-            const basicCallData = await this.gongGet(`/calls/${callId}`);
+            const basicCallData = await this.gongGet(`/calls/${callId}`, {}, signal);
             console.log(`🔍 Basic call data structure:`, {
                 type: typeof basicCallData,
                 isArray: Array.isArray(basicCallData),
@@ -1657,7 +2975,7 @@ class MiroHTTPService {
 
             console.log(`🔍 Fetching detailed content for ID: ${callId}`);
             console.log(`🔍 Request body for extensive call:`, JSON.stringify(postBody, null, 2));
-            const contentData = await this.gongPost('/calls/extensive', postBody);
+            const contentData = await this.gongPost('/calls/extensive', postBody, signal);
             console.log(`🔍 Extensive call response structure:`, {
                 hasCalls: !!contentData.calls,
                 callsLength: contentData.calls?.length || 0,
@@ -1780,8 +3098,10 @@ class MiroHTTPService {
                 callUrl: metaData.url || `https://app.gong.io/call?id=${callId}`,
                 title: metaData.title || `Call ${callId}`,
                 date: formattedDate,
+                startedAt: metaData.actualStart || metaData.started || undefined,
                 duration: formattedDuration,
                 participants: this.extractParticipants(metaData, call, extensiveCallData),
+                rep: this.extractRep(metaData, extensiveCallData),
                 highlights: (content as any).highlights || ["No highlights available"],
                 keyPoints: (content as any).keyPoints || ["No key points available"],
                 brief: (content as any).brief || "No brief available",
@@ -1800,6 +3120,7 @@ class MiroHTTPService {
             return result;
 
         } catch (error) {
+            throwIfCancelled(signal);
             console.error('Error getting Gong call details:', error);
 
             if (error instanceof Error && 'response' in error) {
@@ -1817,7 +3138,7 @@ class MiroHTTPService {
         }
     }
 
-    public async getGongCallTranscript(callId: string): Promise<{
+    public async getGongCallTranscript(callId: string, signal?: AbortSignal): Promise<{
         hasTranscript: boolean;
         transcript?: any[];
         transcriptSummary?: any;
@@ -1859,7 +3180,7 @@ class MiroHTTPService {
                 filter: {
                     callIds: [callId]
                 }
-            });
+            }, signal);
             
             console.log(`🔍 Raw transcript response structure:`, {
                 hasCallTranscripts: !!transcriptData.callTranscripts,
@@ -1930,7 +3251,7 @@ class MiroHTTPService {
                                 url: true
                             }
                         }
-                    });
+                    }, signal);
                     
                     console.log(`🔍 Extensive call response for speaker mapping:`, {
                         hasCalls: !!extensiveCallResponse.calls,
@@ -1992,6 +3313,7 @@ class MiroHTTPService {
                         );
                     }
                 } catch (mappingError) {
+                    throwIfCancelled(signal);
                     console.error(`❌ Failed to map speaker names:`, mappingError);
                     console.error(`   Error details:`, mappingError instanceof Error ? mappingError.message : String(mappingError));
                     
@@ -2024,6 +3346,7 @@ class MiroHTTPService {
             };
 
         } catch (error) {
+            throwIfCancelled(signal);
             console.error(`❌ Error fetching transcript for call ${callId}:`, error);
             
             if (error instanceof Error && 'response' in error) {
@@ -2061,7 +3384,7 @@ class MiroHTTPService {
      * Analyze keywords/phrases across multiple Gong call transcripts
      * Optimized for 1-100 calls with batching and concurrency control
      */
-    public async analyzeKeywordsInCalls(args: any) {
+    public async analyzeKeywordsInCalls(args: any, context: ToolExecutionContext = {}) {
         const { callIds, keywords } = args;
 
         // Validation
@@ -2079,12 +3402,14 @@ class MiroHTTPService {
 
         try {
             // Step 1: Fetch all transcripts with controlled concurrency (5 at a time)
-            const transcriptResults = await this.fetchTranscriptsBatch(callIds);
+            const transcriptResults = await this.fetchTranscriptsBatch(callIds, context);
 
             // Step 2: Analyze each keyword across all transcripts
+            context.reportProgress?.(callIds.length, callIds.length, `Analyzing ${keywords.length} keyword(s)`);
             const keywordResults = await Promise.all(
-                keywords.map(keyword => this.analyzeKeyword(keyword, transcriptResults))
+                keywords.map(keyword => this.analyzeKeyword(keyword, transcriptResults, context.signal))
             );
+            throwIfCancelled(context.signal);
 
             // Step 3: Format and return results
             return {
@@ -2100,22 +3425,28 @@ class MiroHTTPService {
                     .map(r => ({ callId: r.callId, error: r.error }))
             };
         } catch (error) {
+            throwIfCancelled(context.signal);
             console.error('❌ Error in keyword analysis:', error);
             throw new Error(`Keyword analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Fetch transcripts in batches with concurrency control
+     * Fetch transcripts in batches with concurrency control, reporting progress per call
      */
-    private async fetchTranscriptsBatch(callIds: string[]): Promise<any[]> {
+    private async fetchTranscriptsBatch(callIds: string[], context: ToolExecutionContext = {}): Promise<any[]> {
         const CONCURRENCY_LIMIT = 5;
         const results: any[] = [];
+        const { signal, reportProgress } = context;
+        let fetched = 0;
+
+        reportProgress?.(0, callIds.length, `Fetching ${callIds.length} transcript(s)`);
 
         console.log(`📥 Fetching ${callIds.length} transcripts with concurrency limit ${CONCURRENCY_LIMIT}`);
 
         // Process in batches of CONCURRENCY_LIMIT
         for (let i = 0; i < callIds.length; i += CONCURRENCY_LIMIT) {
+            throwIfCancelled(signal);
             const batch = callIds.slice(i, i + CONCURRENCY_LIMIT);
             console.log(`📦 Processing batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}/${Math.ceil(callIds.length / CONCURRENCY_LIMIT)}`);
 
@@ -2123,10 +3454,11 @@ class MiroHTTPService {
                 try {
                     // Fetch call details and transcript
                     const [details, transcriptData] = await Promise.all([
-                        this.getGongCallDetails({ callId }),
-                        this.getGongCallTranscript(callId)
+                        this.getGongCallDetails({ callId }, signal),
+                        this.getGongCallTranscript(callId, signal)
                     ]);
 
+                    reportProgress?.(++fetched, callIds.length, `Fetched transcript for call ${callId}`);
                     return {
                         success: true,
                         callId,
@@ -2137,7 +3469,9 @@ class MiroHTTPService {
                         hasTranscript: transcriptData.hasTranscript
                     };
                 } catch (error) {
+                    throwIfCancelled(signal);
                     console.error(`❌ Failed to fetch call ${callId}:`, error);
+                    reportProgress?.(++fetched, callIds.length, `Could not fetch call ${callId}`);
                     return {
                         success: false,
                         callId,
@@ -2156,7 +3490,7 @@ class MiroHTTPService {
     /**
      * Analyze a single keyword across all transcript results
      */
-    private async analyzeKeyword(keyword: string, transcriptResults: any[]): Promise<any> {
+    private async analyzeKeyword(keyword: string, transcriptResults: any[], signal?: AbortSignal): Promise<any> {
         const keywordLower = keyword.toLowerCase();
         const citations: any[] = [];
         let totalMentions = 0;
@@ -2201,7 +3535,8 @@ class MiroHTTPService {
             keyword,
             citations,
             totalMentions,
-            callsWithMention.size
+            callsWithMention.size,
+            signal
         );
 
         // Generate analysis
@@ -2288,7 +3623,8 @@ class MiroHTTPService {
         keyword: string,
         citations: any[],
         totalMentions: number,
-        _callsWithMention: number
+        _callsWithMention: number,
+        signal?: AbortSignal
     ): Promise<{ level: 'throw_away' | 'substantial', reason: string }> {
         // Heuristic thresholds
         if (totalMentions === 0) {
@@ -2312,7 +3648,7 @@ class MiroHTTPService {
 
         // Borderline case: Use AI analysis
         if (totalMentions >= 2 && totalMentions <= 4) {
-            return await this.aiSignificanceAnalysis(keyword, citations);
+            return await this.aiSignificanceAnalysis(keyword, citations, signal);
         }
 
         // Default to throw_away for edge cases
@@ -2374,10 +3710,11 @@ class MiroHTTPService {
      */
     private async aiSignificanceAnalysis(
         keyword: string,
-        citations: any[]
+        citations: any[],
+        signal?: AbortSignal
     ): Promise<{ level: 'throw_away' | 'substantial', reason: string }> {
         // Only use AI if Anthropic client is available
-        if (!this.anthropicClient) {
+        if (!this.llmProvider) {
             console.log('⚠️ AI analysis unavailable, using heuristic fallback');
             return { level: 'throw_away', reason: 'Borderline case (AI unavailable)' };
         }
@@ -2402,14 +3739,14 @@ Respond with ONLY:
 - "SUBSTANTIAL: [one sentence reason]" if it was meaningfully discussed
 - "THROW_AWAY: [one sentence reason]" if it was just a passing mention`;
 
-            const response = await this.anthropicClient.messages.create({
-                model: process.env.ANTHROPIC_MODEL || 'us.anthropic.claude-3-5-sonnet-20241022-v2:0',
-                max_tokens: 150,
+            const { params, options } = taskRequest('keyword_significance', this.llmProvider);
+            const response = await this.llmProvider.createMessage({
+                ...params,
                 messages: [{
                     role: 'user',
                     content: prompt
                 }]
-            });
+            }, { ...options, signal });
 
             const result = response.content[0]?.type === 'text' ? response.content[0].text.trim() : '';
 
@@ -2425,6 +3762,7 @@ Respond with ONLY:
                 };
             }
         } catch (error) {
+            throwIfCancelled(signal);
             console.error('❌ AI significance analysis failed:', error);
             return { level: 'throw_away', reason: 'Borderline case (AI analysis failed)' };
         }
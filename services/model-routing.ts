@@ -0,0 +1,112 @@
+// services/model-routing.ts
+// Per-task model routing: which model, max_tokens, temperature and timeout each kind of LLM call uses.
+// Defaults below < LLM_MODEL_ROUTING (JSON env) < per-request admin overrides.
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { LLMProvider, LLMRequestOptions, getLLMProvider, resolveModel } from './llm-provider';
+
+export type LLMTask = 'chat' | 'follow_up' | 'framework_analysis' | 'evidence_extraction' | 'keyword_significance' | 'summarization';
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'follow_up', 'framework_analysis', 'evidence_extraction', 'keyword_significance', 'summarization'];
+
+export interface ModelSettings {
+    model?: string; // Falls back to ANTHROPIC_MODEL, then the provider default
+    maxTokens: number;
+    temperature?: number;
+    timeoutMs: number;
+}
+
+export type ModelOverrides = Partial<Record<LLMTask, Partial<ModelSettings>>>;
+
+const DEFAULT_ROUTING: Record<LLMTask, ModelSettings> = {
+    chat: { maxTokens: 2000, timeoutMs: 60000 },
+    follow_up: { maxTokens: 2000, timeoutMs: 60000 },
+    framework_analysis: { maxTokens: 4000, timeoutMs: 180000 },
+    evidence_extraction: { maxTokens: 3000, temperature: 0, timeoutMs: 120000 },
+    keyword_significance: { maxTokens: 150, temperature: 0, timeoutMs: 20000 },
+    summarization: { maxTokens: 1500, temperature: 0, timeoutMs: 60000 }
+};
+
+const ModelSettingsSchema = z.object({
+    model: z.string().min(1).optional(),
+    maxTokens: z.number().int().min(1).max(64000).optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    timeoutMs: z.number().int().min(1000).max(600000).optional()
+}).strict();
+
+const ModelOverridesSchema = z.object(
+    Object.fromEntries(LLM_TASKS.map(task => [task, ModelSettingsSchema.optional()])) as Record<LLMTask, z.ZodOptional<typeof ModelSettingsSchema>>
+).strict();
+
+/**
+ * Validate routing overrides (from config or a request). Throws a ZodError when invalid.
+ */
+export function parseModelOverrides(value: unknown): ModelOverrides {
+    return ModelOverridesSchema.parse(value) as ModelOverrides;
+}
+
+let configuredRouting: ModelOverrides | null = null;
+
+function getConfiguredRouting(): ModelOverrides {
+    if (configuredRouting) {
+        return configuredRouting;
+    }
+
+    configuredRouting = {};
+    if (process.env.LLM_MODEL_ROUTING) {
+        try {
+            configuredRouting = parseModelOverrides(JSON.parse(process.env.LLM_MODEL_ROUTING));
+        } catch (error) {
+            console.warn('⚠️ Ignoring invalid LLM_MODEL_ROUTING:', error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+    return configuredRouting;
+}
+
+// === REQUEST OVERRIDES ===
+
+const requestOverrides = new AsyncLocalStorage<ModelOverrides>();
+
+/**
+ * Run `fn` with per-request routing overrides applied to every LLM call it makes
+ */
+export function withModelOverrides<T>(overrides: ModelOverrides | undefined, fn: () => Promise<T>): Promise<T> {
+    return overrides && Object.keys(overrides).length > 0 ? requestOverrides.run(overrides, fn) : fn();
+}
+
+// Overrides active for the current request, if any
+export function getModelOverrides(): ModelOverrides | undefined {
+    return requestOverrides.getStore();
+}
+
+/**
+ * Resolve the settings for a task, with the model filled in
+ */
+export function getModelSettings(task: LLMTask, provider: LLMProvider = getLLMProvider()): ModelSettings & { model: string } {
+    const settings: ModelSettings = {
+        ...DEFAULT_ROUTING[task],
+        ...getConfiguredRouting()[task],
+        ...getModelOverrides()?.[task]
+    };
+    return { ...settings, model: settings.model || resolveModel(provider) };
+}
+
+/**
+ * Request parameters and options for a task, ready to spread into a provider call
+ */
+export function taskRequest(task: LLMTask, provider: LLMProvider = getLLMProvider()): {
+    params: { model: string; max_tokens: number; temperature?: number };
+    options: LLMRequestOptions;
+} {
+    const settings = getModelSettings(task, provider);
+    console.log(`🧭 ${task}: ${settings.model} (max_tokens ${settings.maxTokens}${settings.temperature !== undefined ? `, temperature ${settings.temperature}` : ''})`);
+
+    return {
+        params: {
+            model: settings.model,
+            max_tokens: settings.maxTokens,
+            ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {})
+        },
+        options: { timeoutMs: settings.timeoutMs }
+    };
+}
@@ -1,8 +1,10 @@
 // services/prompt-manager.ts
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { FrameworkResources } from './framework-analyzer';
+import type { MergedEvidence, SubComponentEvidence } from './transcript-chunks';
 
 
 const __filename = fileURLToPath(import.meta.url);
@@ -81,6 +83,29 @@ export class PromptManager {
         return rendered;
     }
 
+    // Render a template from a plain set of values (MCP prompts have their own placeholders)
+    async renderWithValues(templateName: string, values: Record<string, string | undefined>): Promise<string> {
+        const template = await this.loadPromptTemplate(templateName);
+        let rendered = template;
+
+        for (const [key, value] of Object.entries(values)) {
+            rendered = rendered.replace(new RegExp(`{{${key}}}`, 'g'), () => value || '');
+        }
+
+        // Clean up remaining placeholders
+        return rendered.replace(/\{\{[^}]*\}\}/g, '');
+    }
+
+    // Short content hash of a set of templates, so stored analyses record which prompts produced them
+    async getTemplatesVersion(templateNames: string[]): Promise<string> {
+        const hash = crypto.createHash('sha256');
+        for (const templateName of templateNames) {
+            hash.update(templateName);
+            hash.update(await this.loadPromptTemplate(templateName));
+        }
+        return hash.digest('hex').substring(0, 12);
+    }
+
     async loadPromptTemplate(templateName: string): Promise<string> {
         // Check cache first
         if (this.promptCache.has(templateName)) {
@@ -124,17 +149,28 @@ export class PromptManager {
         return this.renderTemplate(template, context);
     }
 
-    // Helper method to build framework components text
+    // Helper method to build framework components text, with the scoring criteria and keywords edited in the framework editor
     buildFrameworkComponentsText(framework: any): string {
         return framework.components.map((comp: any) => `
-## ${comp.name}
+## ${comp.name}${comp.weight ? ` (weight ${comp.weight})` : ''}
 ${comp.description}
 
 **Sub-components:**
-${comp.subComponents.map((sub: any) => `- **${sub.name}**: ${sub.description}`).join('\n')}
+${comp.subComponents.map((sub: any) => this.buildSubComponentText(sub)).join('\n')}
 `).join('\n');
     }
 
+    private buildSubComponentText(sub: any): string {
+        const lines = [`- **${sub.name}**${sub.weight ? ` (weight ${sub.weight})` : ''}: ${sub.description}`];
+        if (sub.scoringCriteria) {
+            lines.push(`  - Scoring: excellent - ${sub.scoringCriteria.excellent}; good - ${sub.scoringCriteria.good}; fair - ${sub.scoringCriteria.fair}; poor - ${sub.scoringCriteria.poor}`);
+        }
+        if (sub.keywords?.length) {
+            lines.push(`  - Listen for: ${sub.keywords.join(', ')}`);
+        }
+        return lines.join('\n');
+    }
+
     // Helper method to build participant info text
     buildParticipantInfo(participants: string[], includeParticipantRoles: boolean): string {
         if (!includeParticipantRoles || !participants.length) {
@@ -183,16 +219,51 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
         }
     }
 
-    // Helper method to enhance transcript for citations (moved from framework-analyzer)
-    private enhanceTranscriptForCitations(transcript: any[]): string {
-        if (!transcript || transcript.length === 0) {
-            return "No transcript available for this call.";
-        }
-    
-        const enhancedTranscript = transcript.map((entry, index) => {
-            const timestamp = entry.startTime 
+    // Transcript info for a long call: the evidence extracted from each transcript window replaces the transcript
+    buildChunkedEvidenceInfo(callDetails: any, merged: MergedEvidence): string {
+        const formatEvidence = (entry: SubComponentEvidence): string => {
+            const lines = [
+                ...entry.evidence.map(citation =>
+                    `- [${citation.timestamp || 'no timestamp'}] ${citation.speaker}: "${citation.quote}"${citation.context ? ` - ${citation.context}` : ''}`),
+                ...entry.observations.map(note => `- Observation: ${note}`)
+            ];
+            return `#### ${entry.component} / ${entry.subComponent}\n${lines.length > 0 ? lines.join('\n') : '- No evidence found in any window'}`;
+        };
+
+        const windows = merged.windows.map(window => window.error
+            ? `- **${window.range}**: ⚠️ Could not be read (${window.error}). Evidence from this part of the call is missing.`
+            : `- **${window.range}**: ${window.summary || 'No summary'} (${window.evidenceCount} ${window.evidenceCount === 1 ? 'quote' : 'quotes'})`);
+
+        return `
+## Call Evidence
+*This call is too long to include in full. It was read in ${merged.windows.length} overlapping windows and the evidence for each sub-component was extracted from every window. Timestamps count from the start of the call.*
+
+**IMPORTANT**: Base your scores on this evidence. Copy the speaker, timestamp and quote of every citation exactly as given below - do not invent citations or timestamps that are not listed.
+
+### Transcript Windows
+${windows.join('\n')}
+
+### Evidence by Sub-component
+${merged.subComponents.map(formatEvidence).join('\n\n')}
+${merged.other.length > 0 ? `\n### Other Evidence\n*Not matched to a framework sub-component*\n\n${merged.other.map(formatEvidence).join('\n\n')}\n` : ''}
+### Transcript Summary
+- **Total Speakers**: ${callDetails.transcriptSummary?.totalSpeakers || 0}
+- **Key Topics**: ${callDetails.transcriptSummary?.keyTopics?.join(", ") || "None identified"}
+- **Duration**: ${callDetails.transcriptSummary?.totalDuration || 0} seconds
+- **Speaker Breakdown**: ${JSON.stringify(callDetails.transcriptSummary?.speakerSummary || {}, null, 2)}
+`;
+    }
+
+    // One "[m:ss] Speaker: "text"" line per entry. With ranges, each line carries its "m:ss - m:ss" span
+    // so a citation can be copied from it as is.
+    formatTranscriptLines(transcript: any[], options: { ranges?: boolean } = {}): string {
+        return transcript.map((entry, index) => {
+            let timestamp = entry.startTime 
                 ? this.formatTimestamp(entry.startTime)
                 : `0:${index.toString().padStart(2, '0')}`;
+            if (options.ranges && typeof entry.startTime === 'number' && entry.endTime > entry.startTime) {
+                timestamp = `${timestamp} - ${this.formatTimestamp(entry.endTime)}`;
+            }
             
             const speaker = this.getSpeakerDisplayName(entry.speaker || 'Unknown');
             const text = entry.text || '';
@@ -201,6 +272,15 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
             // Format for AI to use in creating CustomerCitation objects
             return `[${timestamp}] ${speaker}: "${text}"${topic}`;
         }).join('\n');
+    }
+
+    // Helper method to enhance transcript for citations (moved from framework-analyzer)
+    private enhanceTranscriptForCitations(transcript: any[]): string {
+        if (!transcript || transcript.length === 0) {
+            return "No transcript available for this call.";
+        }
+    
+        const enhancedTranscript = this.formatTranscriptLines(transcript);
     
         return `TRANSCRIPT:
     ${enhancedTranscript}
@@ -210,7 +290,7 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
     {
       "speaker": "Speaker Name" (from transcript),
       "timestamp": "mm:ss" (from transcript),
-      "quote": "Actual quote or paraphrased content",
+      "quote": "Exact words from the transcript",
       "context": "Why this matters for your analysis"
     }
     
@@ -228,7 +308,8 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
         framework: any,
         resources: any,
         callDetails: any,
-        includeParticipantRoles: boolean
+        includeParticipantRoles: boolean,
+        transcriptInfo: string = this.buildTranscriptInfo(callDetails)
     ): PromptContext {
         return {
             callTitle: callDetails.title,
@@ -239,7 +320,7 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
                 includeParticipantRoles
             ),
             callBrief: this.buildCallBrief(callDetails),
-            transcriptInfo: this.buildTranscriptInfo(callDetails),
+            transcriptInfo,
             frameworkName: framework.name,
             frameworkDescription: framework.description,
             frameworkComponents: this.buildFrameworkComponentsText(framework),
@@ -257,7 +338,8 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
     buildBasicAnalysisContext(
         framework: any,
         callDetails: any,
-        includeParticipantRoles: boolean
+        includeParticipantRoles: boolean,
+        transcriptInfo: string = this.buildTranscriptInfo(callDetails)
     ): PromptContext {
         return {
             callTitle: callDetails.title,
@@ -268,7 +350,7 @@ ${this.enhanceTranscriptForCitations(callDetails.transcript)}
                 includeParticipantRoles
             ),
             callBrief: this.buildCallBrief(callDetails),
-            transcriptInfo: this.buildTranscriptInfo(callDetails),
+            transcriptInfo,
             frameworkName: framework.name,
             frameworkDescription: framework.description,
             frameworkComponents: this.buildFrameworkComponentsText(framework)
@@ -0,0 +1,255 @@
+// services/rep-trends.ts
+// Rep and team framework trends from stored analyses (lib/db/schema.ts): component scores averaged over
+// consecutive windows (e.g. the last six 30-day windows), so managers can see whether sellers improve.
+// Used by the get_rep_framework_trends MCP tool and the /dashboard/trends page.
+import { and, desc, eq, gte, inArray, isNotNull } from 'drizzle-orm';
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js';
+import { callAnalyses, componentScores } from '../lib/db/schema';
+
+export interface RepTrendsOptions {
+    framework: string;
+    windowDays?: number;
+    windows?: number;
+    // Case-insensitive match on rep name or email
+    rep?: string;
+    team?: string;
+    now?: Date;
+}
+
+export interface TrendWindow {
+    start: string;
+    end: string;
+    callCount: number;
+    overallScore: number | null;
+    components: Record<string, number | null>;
+}
+
+export type TrendDirection = 'improving' | 'declining' | 'steady' | 'insufficient_data';
+
+export interface TrendSeries {
+    name: string;
+    email?: string;
+    team: string;
+    repCount?: number; // Teams only
+    callCount: number;
+    windows: TrendWindow[];
+    // Latest window with calls minus the earliest one
+    change: { overallScore: number | null; components: Record<string, number | null> };
+    direction: TrendDirection;
+}
+
+export interface RepTrends {
+    framework: string;
+    windowDays: number;
+    generatedAt: string;
+    components: string[];
+    reps: TrendSeries[];
+    teams: TrendSeries[];
+}
+
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_WINDOWS = 6;
+const UNASSIGNED_TEAM = 'Unassigned';
+
+// Score changes smaller than this (on the 1-10 scale) are reported as steady
+const TREND_THRESHOLD = 0.5;
+
+interface TrendCall {
+    repKey: string;
+    repName: string;
+    repEmail?: string;
+    team: string;
+    startedAt: Date;
+    overallScore: number | null;
+    components: Map<string, number | null>;
+}
+
+let repTeams: Map<string, string> | null = null;
+
+/**
+ * Teams from REP_TEAMS, a JSON object of team name to rep emails, e.g. {"Enterprise": ["ana@example.com"]}
+ */
+function getRepTeams(): Map<string, string> {
+    if (repTeams) {
+        return repTeams;
+    }
+
+    repTeams = new Map();
+    if (process.env.REP_TEAMS) {
+        try {
+            const teams = JSON.parse(process.env.REP_TEAMS) as Record<string, string[]>;
+            for (const [team, emails] of Object.entries(teams)) {
+                for (const email of Array.isArray(emails) ? emails : []) {
+                    repTeams.set(String(email).toLowerCase(), team);
+                }
+            }
+        } catch (error) {
+            console.warn('⚠️ Ignoring invalid REP_TEAMS:', error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+    return repTeams;
+}
+
+/**
+ * Frameworks that have stored analyses attributed to a rep
+ */
+export async function listTrendFrameworks(db: PostgresJsDatabase<any>): Promise<string[]> {
+    const rows = await db
+        .selectDistinct({ framework: callAnalyses.framework })
+        .from(callAnalyses)
+        .where(isNotNull(callAnalyses.repName))
+        .orderBy(callAnalyses.framework);
+    return rows.map(row => row.framework);
+}
+
+export async function getRepTrends(db: PostgresJsDatabase<any>, options: RepTrendsOptions): Promise<RepTrends> {
+    const windowDays = options.windowDays && options.windowDays > 0 ? options.windowDays : DEFAULT_WINDOW_DAYS;
+    const windowCount = options.windows && options.windows > 0 ? Math.min(options.windows, 24) : DEFAULT_WINDOWS;
+    const now = options.now || new Date();
+    const windowMs = windowDays * 24 * 60 * 60 * 1000;
+    const from = new Date(now.getTime() - windowMs * windowCount);
+
+    const calls = await loadTrendCalls(db, options.framework, from);
+    const repFilter = options.rep?.toLowerCase();
+    const filtered = calls.filter(call =>
+        call.startedAt <= now &&
+        (!repFilter || call.repName.toLowerCase().includes(repFilter) || call.repEmail?.toLowerCase().includes(repFilter)) &&
+        (!options.team || call.team.toLowerCase() === options.team.toLowerCase())
+    );
+
+    const components = [...new Set(filtered.flatMap(call => [...call.components.keys()]))];
+
+    // Oldest window first
+    const windowBounds = Array.from({ length: windowCount }, (_, index) => {
+        const end = new Date(now.getTime() - windowMs * (windowCount - 1 - index));
+        return { start: new Date(end.getTime() - windowMs), end };
+    });
+    const buildSeries = (group: TrendCall[]) => {
+        const windows = windowBounds.map(bounds => summarizeWindow(
+            group.filter(call => call.startedAt > bounds.start && call.startedAt <= bounds.end),
+            bounds,
+            components
+        ));
+        const change = compareWindows(windows, components);
+        return { callCount: group.length, windows, change, direction: trendDirection(change.overallScore, windows) };
+    };
+
+    const reps: TrendSeries[] = [...groupBy(filtered, call => call.repKey).values()].map(group => ({
+        name: group[0].repName,
+        email: group[0].repEmail,
+        team: group[0].team,
+        ...buildSeries(group)
+    }));
+    const teams: TrendSeries[] = [...groupBy(filtered, call => call.team).entries()].map(([team, group]) => ({
+        name: team,
+        team,
+        repCount: new Set(group.map(call => call.repKey)).size,
+        ...buildSeries(group)
+    }));
+
+    const byName = (a: TrendSeries, b: TrendSeries) => a.name.localeCompare(b.name);
+    return {
+        framework: options.framework,
+        windowDays,
+        generatedAt: now.toISOString(),
+        components,
+        reps: reps.sort(byName),
+        teams: teams.sort(byName)
+    };
+}
+
+async function loadTrendCalls(db: PostgresJsDatabase<any>, framework: string, from: Date): Promise<TrendCall[]> {
+    const analyses = await db
+        .select({
+            id: callAnalyses.id,
+            callId: callAnalyses.callId,
+            repUserId: callAnalyses.repUserId,
+            repName: callAnalyses.repName,
+            repEmail: callAnalyses.repEmail,
+            callStartedAt: callAnalyses.callStartedAt,
+            overallScore: callAnalyses.overallScore
+        })
+        .from(callAnalyses)
+        .where(and(
+            eq(callAnalyses.framework, framework),
+            eq(callAnalyses.analysisStatus, 'completed'),
+            isNotNull(callAnalyses.repName),
+            gte(callAnalyses.callStartedAt, from)
+        ))
+        .orderBy(desc(callAnalyses.createdAt));
+
+    // A call re-scored under a newer framework or prompt version counts once, with its latest analysis
+    const latest = [...new Map(analyses.reverse().map(analysis => [analysis.callId, analysis])).values()];
+    if (latest.length === 0) {
+        return [];
+    }
+
+    const scores = await db
+        .select({ analysisId: componentScores.analysisId, name: componentScores.name, overallScore: componentScores.overallScore })
+        .from(componentScores)
+        .where(inArray(componentScores.analysisId, latest.map(analysis => analysis.id)));
+    const scoresByAnalysis = groupBy(scores, score => score.analysisId);
+
+    const teams = getRepTeams();
+    return latest.map(analysis => {
+        const email = analysis.repEmail || undefined;
+        return {
+            repKey: email?.toLowerCase() || analysis.repUserId || analysis.repName!,
+            repName: analysis.repName!,
+            repEmail: email,
+            team: (email && teams.get(email.toLowerCase())) || UNASSIGNED_TEAM,
+            startedAt: analysis.callStartedAt!,
+            overallScore: analysis.overallScore,
+            components: new Map((scoresByAnalysis.get(analysis.id) || []).map(score => [score.name, score.overallScore]))
+        };
+    });
+}
+
+function summarizeWindow(calls: TrendCall[], bounds: { start: Date; end: Date }, components: string[]): TrendWindow {
+    return {
+        start: bounds.start.toISOString(),
+        end: bounds.end.toISOString(),
+        callCount: calls.length,
+        overallScore: average(calls.map(call => call.overallScore)),
+        components: Object.fromEntries(components.map(name => [name, average(calls.map(call => call.components.get(name) ?? null))]))
+    };
+}
+
+function compareWindows(windows: TrendWindow[], components: string[]): TrendSeries['change'] {
+    const withCalls = windows.filter(window => window.callCount > 0);
+    const first = withCalls[0];
+    const last = withCalls[withCalls.length - 1];
+    const difference = (before: number | null | undefined, after: number | null | undefined) =>
+        withCalls.length > 1 && before != null && after != null ? round(after - before) : null;
+
+    return {
+        overallScore: difference(first?.overallScore, last?.overallScore),
+        components: Object.fromEntries(components.map(name => [name, difference(first?.components[name], last?.components[name])]))
+    };
+}
+
+function trendDirection(change: number | null, windows: TrendWindow[]): TrendDirection {
+    if (change === null || windows.filter(window => window.callCount > 0).length < 2) {
+        return 'insufficient_data';
+    }
+    if (change >= TREND_THRESHOLD) return 'improving';
+    if (change <= -TREND_THRESHOLD) return 'declining';
+    return 'steady';
+}
+
+function average(values: Array<number | null>): number | null {
+    const scored = values.filter((value): value is number => typeof value === 'number');
+    return scored.length > 0 ? round(scored.reduce((sum, value) => sum + value, 0) / scored.length) : null;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function groupBy<T, K>(items: T[], key: (item: T) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+    for (const item of items) {
+        groups.set(key(item), [...(groups.get(key(item)) || []), item]);
+    }
+    return groups;
+}
@@ -2,6 +2,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FrameworkRegistry, getFrameworkRegistry } from './framework-registry';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -67,14 +68,82 @@ interface MCPResource {
     mimeType: string;
 }
 
+// MCP protocol shapes for resources/list, resources/templates/list and resources/read
+interface MCPResourceDescriptor extends MCPResource {
+    annotations?: { audience?: ('user' | 'assistant')[]; priority?: number };
+}
+
+interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description: string;
+    mimeType?: string;
+}
+
+interface MCPResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+// Manifest URIs are paths relative to the service directory; MCP clients see them as resource:// URIs
+const MCP_URI_PREFIX = 'resource://';
+
+function toMCPUri(uri: string): string {
+    return `${MCP_URI_PREFIX}${uri.replace(/^\//, '')}`;
+}
+
+function fromMCPUri(uri: string): string {
+    return uri.startsWith(MCP_URI_PREFIX) ? `/${uri.substring(MCP_URI_PREFIX.length)}` : uri;
+}
+
+// resource://frameworks/{framework} and resource://frameworks/{framework}/{file}
+const FRAMEWORK_URI_PATTERN = /^\/frameworks\/([\w-]+)(?:\/([\w-][\w.-]*))?$/;
+
+const PRIORITY_ANNOTATIONS: Record<ResourceEntry['priority'], number> = {
+    critical: 1,
+    high: 0.75,
+    medium: 0.5,
+    low: 0.25
+};
+
+const MIME_TYPES: Record<string, string> = {
+    '.md': 'text/markdown',
+    '.json': 'application/json',
+    '.txt': 'text/plain',
+    '.yaml': 'text/yaml',
+    '.yml': 'text/yaml'
+};
+
+// Prompt templates every framework analysis uses
+const SHARED_FRAMEWORK_RESOURCES = [
+    '/resources/prompts/enhanced-analysis.md',
+    '/resources/prompts/basic-analysis.md',
+    '/resources/prompts/system-prompt.md'
+];
+
+// How files of frameworks missing from manifest.json are catalogued, first match wins
+const FRAMEWORK_FILE_TYPES: Array<{ pattern: RegExp; category: string; priority: ResourceEntry['priority'] }> = [
+    { pattern: /^definition\.json$/, category: 'definition', priority: 'critical' },
+    { pattern: /^methodology\.md$/, category: 'methodology', priority: 'high' },
+    { pattern: /example|rubric/, category: 'examples', priority: 'high' },
+    { pattern: /.*/, category: 'methodology', priority: 'medium' }
+];
+
 export class ResourceManager {
     private manifest: ResourceManifest | null = null;
     private manifestPath: string;
     private resourceCache: Map<string, string> = new Map();
     private loadStartTime: number = 0;
 
-    constructor(manifestPath?: string) {
+    constructor(manifestPath?: string, private registry: FrameworkRegistry = getFrameworkRegistry()) {
         this.manifestPath = manifestPath || path.join(__dirname, 'resources', 'manifest.json');
+
+        // Added, removed or edited frameworks change both the manifest and the file contents
+        this.registry.on('change', () => {
+            this.manifest = null;
+            this.clearCache();
+        });
     }
 
     /**
@@ -90,7 +159,7 @@ export class ResourceManager {
         try {
             console.log(`📋 Loading resource manifest from: ${this.manifestPath}`);
             const manifestContent = await fs.readFile(this.manifestPath, 'utf8');
-            const parsedManifest: ResourceManifest = JSON.parse(manifestContent);
+            const parsedManifest = await this.withDiscoveredFrameworks(JSON.parse(manifestContent));
             this.manifest = parsedManifest;
             
             const loadTime = Date.now() - this.loadStartTime;
@@ -103,19 +172,80 @@ export class ResourceManager {
             console.error('❌ Failed to load resource manifest:', error);
             
             // Return minimal fallback manifest
-            this.manifest = {
+            this.manifest = await this.withDiscoveredFrameworks({
                 version: '0.0.0-fallback',
                 lastUpdated: new Date().toISOString(),
                 description: 'Fallback manifest due to load error',
                 resources: [],
                 frameworks: [],
                 categories: {}
-            };
+            });
             
             return this.manifest;
         }
     }
 
+    /**
+     * Align the manifest with the framework registry: frameworks without a valid definition are left out, and
+     * framework directories missing from manifest.json get entries built from their definition and files.
+     * The version carries the registry fingerprint so clients drop cached listings when frameworks change.
+     */
+    private async withDiscoveredFrameworks(manifest: ResourceManifest): Promise<ResourceManifest> {
+        const discovered = this.registry.list();
+        const discoveredIds = new Set(discovered.map(framework => framework.id));
+        const listedIds = new Set(manifest.frameworks.map(framework => framework.id));
+
+        const frameworks = manifest.frameworks
+            .filter(framework => discoveredIds.has(framework.id))
+            .map(framework => ({
+                ...framework,
+                version: discovered.find(summary => summary.id === framework.id)!.version
+            }));
+        const resources = manifest.resources.filter(resource =>
+            !listedIds.has(resource.framework) || discoveredIds.has(resource.framework)
+        );
+
+        for (const framework of discovered.filter(summary => !listedIds.has(summary.id))) {
+            const frameworkResources = await this.describeFrameworkFiles(framework.id, framework.displayName);
+            resources.push(...frameworkResources.filter(resource => !resources.some(existing => existing.uri === resource.uri)));
+            frameworks.push({
+                ...framework,
+                resources: frameworkResources.map(resource => resource.uri),
+                sharedResources: SHARED_FRAMEWORK_RESOURCES
+            });
+            console.log(`   ➕ Discovered framework ${framework.id} (${frameworkResources.length} files)`);
+        }
+
+        return { ...manifest, version: `${manifest.version}+${this.registry.fingerprint}`, frameworks, resources };
+    }
+
+    private async describeFrameworkFiles(frameworkId: string, displayName: string): Promise<ResourceEntry[]> {
+        const frameworkDir = path.join(this.registry.directory, frameworkId);
+        const files = (await fs.readdir(frameworkDir, { withFileTypes: true }))
+            .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+            .map(entry => entry.name)
+            .sort();
+
+        const entries: ResourceEntry[] = [];
+        for (const file of files) {
+            const { category, priority } = FRAMEWORK_FILE_TYPES.find(type => type.pattern.test(file))!;
+            const title = path.basename(file, path.extname(file)).replace(/[_-]+/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+            const stats = await fs.stat(path.join(frameworkDir, file));
+            entries.push({
+                uri: `/frameworks/${frameworkId}/${file}`,
+                name: `${displayName} Framework - ${title}`,
+                description: `${title} for the ${displayName} framework`,
+                mimeType: MIME_TYPES[path.extname(file).toLowerCase()] || 'text/plain',
+                category,
+                framework: frameworkId,
+                tags: [...new Set([frameworkId.replace(/_/g, '-'), category, ...title.toLowerCase().split(' ')])],
+                priority,
+                estimatedSize: stats.size
+            });
+        }
+        return entries;
+    }
+
     /**
      * Get all resources (replaces complex directory scanning)
      */
@@ -231,6 +361,87 @@ export class ResourceManager {
         }));
     }
 
+    /**
+     * Resources for the MCP resources/list method
+     */
+    async listMCPResources(): Promise<MCPResourceDescriptor[]> {
+        const manifest = await this.loadManifest();
+        return manifest.resources.map(resource => ({
+            uri: toMCPUri(resource.uri),
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+            annotations: {
+                audience: ['assistant'],
+                priority: PRIORITY_ANNOTATIONS[resource.priority] ?? 0.5
+            }
+        }));
+    }
+
+    /**
+     * Templates for the MCP resources/templates/list method - any framework file, not just those in the manifest
+     */
+    getMCPResourceTemplates(): MCPResourceTemplate[] {
+        return [
+            {
+                uriTemplate: `${MCP_URI_PREFIX}frameworks/{framework}/{file}`,
+                name: 'Framework resource file',
+                description: 'A single file from a framework directory, e.g. frameworks/demo2win/methodology.md or definition.json'
+            },
+            {
+                uriTemplate: `${MCP_URI_PREFIX}frameworks/{framework}`,
+                name: 'All framework resources',
+                description: 'Every file of a framework (methodology, definition, scoring rubric and examples) as one resource'
+            }
+        ];
+    }
+
+    /**
+     * Contents for the MCP resources/read method. Accepts resource:// URIs and manifest paths.
+     * Returns null when the resource does not exist.
+     */
+    async readMCPResource(uri: string): Promise<MCPResourceContents[] | null> {
+        const resourcePath = fromMCPUri(uri);
+
+        const entry = await this.findResource(resourcePath);
+        if (entry) {
+            const text = await this.getResourceContent(entry.uri);
+            return text === null ? null : [{ uri: toMCPUri(entry.uri), mimeType: entry.mimeType, text }];
+        }
+
+        // Anything else must be inside a framework directory
+        const match = FRAMEWORK_URI_PATTERN.exec(resourcePath);
+        if (!match) {
+            return null;
+        }
+
+        const [, framework, file] = match;
+        let files: string[] = [];
+        if (file) {
+            files = [file];
+        } else {
+            try {
+                files = (await fs.readdir(path.join(__dirname, 'frameworks', framework))).filter(name => !name.startsWith('.')).sort();
+            } catch {
+                return null;
+            }
+        }
+
+        const contents: MCPResourceContents[] = [];
+        for (const name of files) {
+            const fileUri = `/frameworks/${framework}/${name}`;
+            const text = await this.getResourceContent(fileUri);
+            if (text !== null) {
+                contents.push({
+                    uri: toMCPUri(fileUri),
+                    mimeType: MIME_TYPES[path.extname(name).toLowerCase()] || 'text/plain',
+                    text
+                });
+            }
+        }
+        return contents.length > 0 ? contents : null;
+    }
+
     /**
      * Get critical resources that should be loaded at startup
      */
@@ -313,6 +524,20 @@ export class ResourceManager {
         };
     }
 
+    /**
+     * Get resource, framework and category metadata so clients can pick resources themselves
+     */
+    async getCatalog(): Promise<{ version: string; lastUpdated: string; resources: ResourceEntry[]; frameworks: FrameworkEntry[]; categories: Record<string, CategoryInfo> }> {
+        const manifest = await this.loadManifest();
+        return {
+            version: manifest.version,
+            lastUpdated: manifest.lastUpdated,
+            resources: manifest.resources,
+            frameworks: manifest.frameworks,
+            categories: manifest.categories
+        };
+    }
+
     /**
      * Clear resource cache (useful for development)
      */
@@ -0,0 +1,155 @@
+// services/score-consistency.ts
+// Consistency mode: a call is scored by several independent samples of the same prompt and each sub-component
+// gets the median of their scores. Where the samples disagree by UNCERTAIN_SPREAD points or more, or only some
+// of them scored a sub-component, the score is marked uncertain. Assessments, evidence and follow-up planning
+// come from the sample whose scores are closest to the medians, so the text matches the scores it explains.
+import type {
+    CallAnalysis,
+    ComponentAnalysis,
+    FrameworkDefinition,
+    ScoringConsistency,
+    SubComponentConsistency,
+    SubComponentScore
+} from './framework-definitions';
+import { scoreFrameworkAnalysis } from './framework-scoring';
+
+export const MAX_CONSISTENCY_SAMPLES = 5;
+
+// On the 1-10 scale, samples this far apart disagree about the band the score falls in
+const UNCERTAIN_SPREAD = 3;
+
+interface SubComponentSamples {
+    component: string;
+    subComponent: string;
+    scores: Array<number | null>;
+}
+
+export interface ConsistentAnalysis {
+    analysis: Partial<CallAnalysis>;
+    consistency: ScoringConsistency;
+}
+
+function normalizeName(name: string): string {
+    return (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2, 1);
+}
+
+// Population variance
+function variance(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return round(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length, 2);
+}
+
+function scoreOf(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function summarize(scores: Array<number | null>): SubComponentConsistency {
+    const scored = scores.filter((score): score is number => score !== null);
+    const spread = scored.length > 0 ? Math.max(...scored) - Math.min(...scored) : null;
+    return {
+        scores,
+        median: median(scored),
+        variance: variance(scored),
+        spread,
+        // Scored by some samples and not others, or scored far apart
+        uncertain: (scored.length > 0 && scored.length < scores.length) || (spread !== null && spread >= UNCERTAIN_SPREAD)
+    };
+}
+
+/**
+ * Combine the successful scoring samples of one call into a single analysis with median sub-component scores.
+ * Sub-components are matched across samples by component and sub-component name. Component and overall scores
+ * are computed from the medians by the caller, as for a single sample.
+ */
+export function aggregateScoringSamples(
+    framework: FrameworkDefinition,
+    samples: Partial<CallAnalysis>[],
+    requestedSamples: number
+): ConsistentAnalysis {
+    const keyOf = (component: string, subComponent: string) => `${normalizeName(component)}/${normalizeName(subComponent)}`;
+
+    // Every sub-component any sample scored, in the order they first appear
+    const bySubComponent = new Map<string, SubComponentSamples>();
+    samples.forEach((sample, index) => {
+        for (const component of sample.components || []) {
+            for (const sub of component.subComponents || []) {
+                const key = keyOf(component.name, sub.name);
+                if (!bySubComponent.has(key)) {
+                    bySubComponent.set(key, { component: component.name, subComponent: sub.name, scores: samples.map(() => null) });
+                }
+                bySubComponent.get(key)!.scores[index] = scoreOf(sub.score);
+            }
+        }
+    });
+
+    const stats = new Map([...bySubComponent].map(([key, entry]) => [key, summarize(entry.scores)]));
+
+    // The sample closest to the medians supplies the text; a sub-component it left unscored counts as far off
+    const distance = (index: number) => [...stats.values()].reduce((total, entry) => {
+        const score = entry.scores[index];
+        return total + (entry.median === null ? 0 : score === null ? 10 : Math.abs(score - entry.median));
+    }, 0);
+    const representativeIndex = samples.reduce((best, _, index) => distance(index) < distance(best) ? index : best, 0);
+    const representative = samples[representativeIndex];
+
+    const findSub = (key: string): { component: ComponentAnalysis; sub: SubComponentScore } | null => {
+        for (const sample of [representative, ...samples]) {
+            for (const component of sample.components || []) {
+                const sub = (component.subComponents || []).find(candidate => keyOf(component.name, candidate.name) === key);
+                if (sub) {
+                    return { component, sub };
+                }
+            }
+        }
+        return null;
+    };
+
+    const components: ComponentAnalysis[] = [];
+    for (const [key, entry] of bySubComponent) {
+        const found = findSub(key)!;
+        let component = components.find(candidate => normalizeName(candidate.name) === normalizeName(entry.component));
+        if (!component) {
+            const source = (representative.components || []).find(candidate => normalizeName(candidate.name) === normalizeName(entry.component)) || found.component;
+            component = { ...source, subComponents: [] };
+            components.push(component);
+        }
+        const consistency = stats.get(key)!;
+        component.subComponents.push({ ...found.sub, score: consistency.median, consistency });
+    }
+
+    const overallScores = samples.map(sample => scoreFrameworkAnalysis(framework, sample.components || []).overallScore);
+    const scoredOverall = overallScores.filter((score): score is number => score !== null);
+    const scoredStats = [...stats.values()].filter(entry => entry.median !== null);
+    const uncertain = [...bySubComponent]
+        .filter(([key]) => stats.get(key)!.uncertain)
+        .map(([, entry]) => `${entry.component} / ${entry.subComponent}`);
+
+    return {
+        analysis: { ...representative, components },
+        consistency: {
+            requestedSamples,
+            samples: samples.length,
+            overallScores,
+            overallVariance: variance(scoredOverall),
+            agreement: scoredStats.length > 0 ? round(scoredStats.filter(entry => !entry.uncertain).length / scoredStats.length, 3) : null,
+            uncertain
+        }
+    };
+}
@@ -0,0 +1,66 @@
+// scripts/run-calibration.ts
+// Run with: npx tsx services/scripts/run-calibration.ts [framework] [--samples N] [--max-mae N] [--json]
+// Offline: LLM_PROVIDER=mock npx tsx services/scripts/run-calibration.ts great_demo
+
+import dotenv from 'dotenv';
+import { FrameworkAnalyzer, FrameworkAnalysisValidator } from '../framework-analyzer';
+import { getLLMProvider } from '../llm-provider';
+import { formatCalibrationReport, runCalibration } from '../calibration';
+
+dotenv.config({ path: '.env.local' });
+
+function readOption(args: string[], name: string): number | undefined {
+    const index = args.indexOf(name);
+    if (index === -1) {
+        return undefined;
+    }
+    const value = Number(args[index + 1]);
+    if (!Number.isFinite(value)) {
+        throw new Error(`${name} needs a number`);
+    }
+    return value;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const framework = args.find((arg, index) => !arg.startsWith('--') && !['--samples', '--max-mae'].includes(args[index - 1]));
+    const consistencySamples = readOption(args, '--samples');
+    const maxMae = readOption(args, '--max-mae');
+
+    if (framework) {
+        FrameworkAnalysisValidator.validateFrameworks([framework]);
+    }
+    FrameworkAnalysisValidator.validateConsistencySamples(consistencySamples);
+
+    // Gold calls carry their own transcripts, so no Gong client is needed
+    const analyzer = new FrameworkAnalyzer(getLLMProvider(), null);
+    const reports = await runCalibration(analyzer, { framework, consistencySamples });
+
+    if (reports.every(report => report.calls.length === 0)) {
+        console.error(`❌ No gold calls found${framework ? ` for ${framework}` : ''}`);
+        process.exit(1);
+    }
+
+    if (args.includes('--json')) {
+        console.log(JSON.stringify(reports, null, 2));
+    } else {
+        for (const report of reports) {
+            console.log(`\n${formatCalibrationReport(report)}\n`);
+        }
+    }
+
+    // Lets CI fail a prompt or model change that moves scores away from the graders
+    if (maxMae !== undefined) {
+        const failing = reports.filter(report => report.summary.mae === null || report.summary.mae > maxMae);
+        if (failing.length > 0) {
+            console.error(`❌ MAE above ${maxMae}: ${failing.map(report => `${report.framework} (${report.summary.mae ?? 'no scores'})`).join(', ')}`);
+            process.exit(1);
+        }
+        console.log(`✅ MAE within ${maxMae} for ${reports.map(report => report.framework).join(', ')}`);
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
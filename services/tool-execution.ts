@@ -0,0 +1,23 @@
+// services/tool-execution.ts
+// Progress reporting and cancellation for tool calls. MCP requests wire these to notifications/progress
+// and notifications/cancelled; REST calls are cancelled when the client disconnects.
+
+export interface ToolExecutionContext {
+    // Aborted when the client cancels the request or goes away
+    signal?: AbortSignal;
+    // Report work done so far (and the total, when known)
+    reportProgress?: (progress: number, total?: number, message?: string) => void;
+    // Deliver a piece of the result as soon as it is ready, e.g. one call's framework analysis
+    reportPartialResult?: (partial: unknown) => void;
+}
+
+/**
+ * Throw once the request has been cancelled. Catch blocks that turn failures into fallback
+ * results call this first so cancellation is never swallowed.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        const reason = signal.reason instanceof Error ? signal.reason.message : signal.reason;
+        throw new Error(`Request cancelled${typeof reason === 'string' && reason ? `: ${reason}` : ''}`);
+    }
+}
@@ -0,0 +1,218 @@
+// services/transcript-chunks.ts
+// Long transcripts are analyzed map-reduce style: the transcript is split into overlapping time windows, evidence
+// for each framework sub-component is extracted from every window, and the final scoring pass reads the merged
+// evidence instead of the whole transcript. Timestamps always count from the start of the call, so citations
+// keep pointing at the right moment of the recording.
+import { z } from 'zod';
+import type { CustomerCitation, FrameworkDefinition, TranscriptWindowSummary } from './framework-definitions';
+
+// Transcripts estimated above this many tokens are chunked (an hour-long call is roughly 12-15k tokens)
+const DEFAULT_THRESHOLD_TOKENS = 12000;
+const DEFAULT_WINDOW_MINUTES = 15;
+const DEFAULT_OVERLAP_SECONDS = 90;
+
+export interface TranscriptChunkingSettings {
+    thresholdTokens: number;
+    windowMs: number;
+    overlapMs: number;
+}
+
+export interface TranscriptChunk {
+    index: number;
+    startMs: number;
+    endMs: number;
+    range: string; // "m:ss - m:ss", or the transcript lines for a transcript without times
+    entries: any[];
+}
+
+// What the evidence pass returns for one window
+export interface WindowEvidence {
+    windowSummary: string;
+    evidence: Array<CustomerCitation & { component: string; subComponent: string }>;
+    observations: Array<{ component: string; subComponent: string; note: string }>;
+}
+
+export interface SubComponentEvidence {
+    component: string;
+    subComponent: string;
+    evidence: CustomerCitation[];
+    observations: string[];
+}
+
+export interface MergedEvidence {
+    windows: Array<TranscriptWindowSummary & { summary?: string }>;
+    subComponents: SubComponentEvidence[];
+    // Evidence for names that are not in the framework definition
+    other: SubComponentEvidence[];
+}
+
+// Models leave out fields they have nothing for; missing strings and arrays default to empty
+const WindowEvidenceSchema = z.object({
+    windowSummary: z.string().default(''),
+    evidence: z.array(z.object({
+        component: z.string().default(''),
+        subComponent: z.string().default(''),
+        speaker: z.string().default('Unknown Speaker'),
+        timestamp: z.string().optional(),
+        quote: z.string().default(''),
+        context: z.string().optional()
+    })).default([]),
+    observations: z.array(z.object({
+        component: z.string().default(''),
+        subComponent: z.string().default(''),
+        note: z.string().default('')
+    })).default([])
+});
+
+/**
+ * Validate the parsed JSON of an evidence extraction response. Throws a ZodError when invalid.
+ */
+export function parseWindowEvidence(value: unknown): WindowEvidence {
+    return WindowEvidenceSchema.parse(value);
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getTranscriptChunkingSettings(): TranscriptChunkingSettings {
+    return {
+        thresholdTokens: positiveIntFromEnv('FRAMEWORK_CHUNK_THRESHOLD_TOKENS', DEFAULT_THRESHOLD_TOKENS),
+        windowMs: positiveIntFromEnv('FRAMEWORK_CHUNK_WINDOW_MINUTES', DEFAULT_WINDOW_MINUTES) * 60 * 1000,
+        overlapMs: positiveIntFromEnv('FRAMEWORK_CHUNK_OVERLAP_SECONDS', DEFAULT_OVERLAP_SECONDS) * 1000
+    };
+}
+
+// Rough token estimate - ~4 characters per token is close enough for budgeting
+export function estimateTranscriptTokens(transcript: any[]): number {
+    return Math.ceil(transcript.reduce((total, entry) => total + (entry.speaker || '').length + (entry.text || '').length + 12, 0) / 4);
+}
+
+export function shouldChunkTranscript(transcript: any[], settings: TranscriptChunkingSettings): boolean {
+    return transcript.length > 1 && estimateTranscriptTokens(transcript) > settings.thresholdTokens;
+}
+
+export function formatTranscriptTime(timeMs: number): string {
+    const totalSeconds = Math.floor(timeMs / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Split a transcript into windows of `windowMs` that overlap by `overlapMs`, so a point made across a window
+ * boundary is seen whole by at least one window. Transcripts without usable times are split by entry count.
+ */
+export function splitTranscript(transcript: any[], settings: TranscriptChunkingSettings): TranscriptChunk[] {
+    const times = transcript.map(entry => typeof entry.startTime === 'number' ? entry.startTime : NaN);
+    const timed = times.every(Number.isFinite) && times[times.length - 1] > times[0];
+
+    if (!timed) {
+        const windowCount = Math.max(1, Math.ceil(estimateTranscriptTokens(transcript) / settings.thresholdTokens));
+        const size = Math.ceil(transcript.length / windowCount);
+        const overlap = Math.floor(size * settings.overlapMs / settings.windowMs);
+        const chunks: TranscriptChunk[] = [];
+        for (let start = 0; start < transcript.length; start += size) {
+            const first = Math.max(0, start - overlap);
+            const entries = transcript.slice(first, start + size);
+            chunks.push({ index: chunks.length, startMs: 0, endMs: 0, range: `lines ${first + 1}-${first + entries.length}`, entries });
+        }
+        return chunks;
+    }
+
+    const chunks: TranscriptChunk[] = [];
+    const step = Math.max(settings.windowMs - settings.overlapMs, 60 * 1000);
+    const lastTime = times[times.length - 1];
+    for (let startMs = times[0]; startMs <= lastTime; startMs += step) {
+        const endMs = startMs + settings.windowMs;
+        const entries = transcript.filter((_, index) => times[index] >= startMs && times[index] < endMs);
+        if (entries.length > 0) {
+            const last = entries[entries.length - 1];
+            const chunkEndMs = Math.max(last.endTime ?? 0, last.startTime);
+            chunks.push({
+                index: chunks.length,
+                startMs,
+                endMs: chunkEndMs,
+                range: `${formatTranscriptTime(startMs)} - ${formatTranscriptTime(chunkEndMs)}`,
+                entries
+            });
+        }
+        if (endMs > lastTime) {
+            break;
+        }
+    }
+    return chunks;
+}
+
+function normalize(text: string): string {
+    return (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function timestampSeconds(timestamp?: string): number {
+    const match = timestamp?.match(/(\d+):(\d+)/);
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Merge the evidence of every window by framework sub-component. Quotes seen in two overlapping windows are
+ * kept once, and evidence is ordered by its timestamp in the call.
+ */
+export function mergeWindowEvidence(
+    framework: FrameworkDefinition,
+    chunks: TranscriptChunk[],
+    results: Array<WindowEvidence | { error: string }>
+): MergedEvidence {
+    const defined = new Map<string, SubComponentEvidence>();
+    for (const component of framework.components) {
+        for (const sub of component.subComponents) {
+            defined.set(`${normalize(component.name)}/${normalize(sub.name)}`, { component: component.name, subComponent: sub.name, evidence: [], observations: [] });
+        }
+    }
+    // Windows sometimes name just the sub-component
+    const bySubComponent = new Map([...defined.values()].map(entry => [normalize(entry.subComponent), entry]));
+    const other = new Map<string, SubComponentEvidence>();
+
+    const find = (component: string, subComponent: string): SubComponentEvidence => {
+        const key = `${normalize(component)}/${normalize(subComponent)}`;
+        const match = defined.get(key) || bySubComponent.get(normalize(subComponent));
+        if (match) {
+            return match;
+        }
+        if (!other.has(key)) {
+            other.set(key, { component: component || 'Unknown', subComponent: subComponent || 'Unknown', evidence: [], observations: [] });
+        }
+        return other.get(key)!;
+    };
+
+    const windows: MergedEvidence['windows'] = [];
+    const seenQuotes = new Set<string>();
+    for (const [index, result] of results.entries()) {
+        const range = chunks[index].range;
+        if ('error' in result) {
+            windows.push({ range, evidenceCount: 0, error: result.error });
+            continue;
+        }
+
+        windows.push({ range, evidenceCount: result.evidence.length, summary: result.windowSummary });
+        for (const { component, subComponent, ...citation } of result.evidence) {
+            const entry = find(component, subComponent);
+            const key = `${normalize(entry.component)}/${normalize(entry.subComponent)}/${normalize(citation.quote)}`;
+            if (!citation.quote || seenQuotes.has(key)) {
+                continue;
+            }
+            seenQuotes.add(key);
+            entry.evidence.push(citation);
+        }
+        for (const observation of result.observations) {
+            const entry = find(observation.component, observation.subComponent);
+            if (observation.note && !entry.observations.includes(observation.note)) {
+                entry.observations.push(observation.note);
+            }
+        }
+    }
+
+    for (const entry of [...defined.values(), ...other.values()]) {
+        entry.evidence.sort((a, b) => timestampSeconds(a.timestamp) - timestampSeconds(b.timestamp));
+    }
+
+    return { windows, subComponents: [...defined.values()], other: [...other.values()] };
+}
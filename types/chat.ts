@@ -14,6 +14,7 @@ export interface Message {
     result?: any;
     status?: 'pending' | 'success' | 'error';
     error?: string;
+    step?: number; // Tool round within the assistant turn that made this call
   }
 
   export interface Citation {